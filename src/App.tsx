@@ -2,6 +2,7 @@ import { Wrench } from "lucide-react";
 import { useConfigStore } from "@/stores/config";
 import { ImportStep } from "@/components/ImportStep";
 import { PresetsStep } from "@/components/PresetsStep";
+import { RoutingStep } from "@/components/RoutingStep";
 import { ResultStep } from "@/components/ResultStep";
 
 function App() {
@@ -22,7 +23,7 @@ function App() {
 
           {/* Steps indicator */}
           <div className="flex gap-2">
-            {[1, 2, 3].map((s) => (
+            {[1, 2, 3, 4].map((s) => (
               <div
                 key={s}
                 className={`w-8 h-1 rounded ${
@@ -39,7 +40,8 @@ function App() {
         <main className="terminal-main">
           {step === 1 && <ImportStep />}
           {step === 2 && <PresetsStep />}
-          {step === 3 && <ResultStep />}
+          {step === 3 && <RoutingStep />}
+          {step === 4 && <ResultStep />}
         </main>
 
         {/* Footer */}
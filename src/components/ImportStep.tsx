@@ -1,82 +1,169 @@
 import { useState, useCallback, useRef } from "react";
-import { Upload, FileText } from "lucide-react";
+import { Upload, FileText, ArrowRight, Download } from "lucide-react";
 import { useConfigStore } from "@/stores/config";
-import { parseVlessLinks } from "@/lib/parsers/vless";
+import { parseProxyLinks, parseClashConfig, parseSingboxConfig } from "@/lib/parsers";
 import { parseAmneziaConfig } from "@/lib/parsers/amnezia";
-import { parseAwgConfig } from "@/lib/parsers/awg";
-import type { Outbound, AwgEndpointConfig } from "@/lib/builder";
+import { parseVpnLink } from "@/lib/parsers/vpn";
+import { parseAmneziaBackup } from "@/lib/parsers/backup";
+import type { AmneziaBackupEntry } from "@/lib/parsers/backup";
+import { parseAwgConfig, parseWireguardConfig } from "@/lib/parsers/awg";
+import type { Outbound, AwgEndpointConfig, EndpointConfig, CustomSections } from "@/lib/builder";
+import { decodeQrImage } from "@/lib/qr";
 
-type ImportMode = "vless" | "amnezia" | "awg";
+type ImportMode = "links" | "clash" | "singbox" | "amnezia" | "backup" | "awg" | "wireguard";
+
+/**
+ * Pick the import mode for text read from a QR code
+ * AmneziaWG mode also takes plain WireGuard configs
+ */
+function detectQrMode(text: string): ImportMode {
+  if (text.toLowerCase().startsWith("vpn://")) return "amnezia";
+  if (/^\s*\[Interface\]/im.test(text)) return "awg";
+  return "links";
+}
 
 export function ImportStep() {
-  const { outbounds, setOutbounds, endpoints, setEndpoints, nextStep } = useConfigStore();
-  const [mode, setMode] = useState<ImportMode>("vless");
+  const {
+    outbounds,
+    setOutbounds,
+    endpoints,
+    setEndpoints,
+    setGroups,
+    setCustom,
+    clearCustom,
+    setDnsPreset,
+    setInboundPreset,
+    nextStep,
+  } = useConfigStore();
+  const [mode, setMode] = useState<ImportMode>("links");
   const [input, setInput] = useState("");
   const [error, setError] = useState<string | null>(null);
+  // Non-fatal problems: import succeeded, but some entries were skipped or changed
+  const [warnings, setWarnings] = useState<string[]>([]);
+  // Amnezia backup: server/container pairs and the ones picked for import
+  const [backupEntries, setBackupEntries] = useState<AmneziaBackupEntry[]>([]);
+  const [selectedEntries, setSelectedEntries] = useState<number[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleParse = useCallback(() => {
+  const parseInput = useCallback(async (text: string, importMode: ImportMode) => {
     setError(null);
+    setWarnings([]);
+    setBackupEntries([]);
 
-    if (!input.trim()) {
+    if (!text.trim()) {
       setError("Введите данные для импорта");
       return;
     }
 
+    let skipped: string[] = [];
+
     try {
-      switch (mode) {
-        case "vless": {
-          const result = parseVlessLinks(input);
+      switch (importMode) {
+        case "links": {
+          const result = parseProxyLinks(text);
           if (result.outbounds.length === 0) {
             const errorMessages = result.errors.map(e => `Строка ${e.lineNumber}: ${e.error}`);
-            setError(errorMessages.join("\n") || "Не найдено валидных VLESS ссылок");
+            setError(errorMessages.join("\n") || "Не найдено валидных ссылок");
             return;
           }
-          // Convert VlessOutbound to Outbound
-          const converted: Outbound[] = result.outbounds.map(o => ({
-            type: o.type,
-            tag: o.tag,
-            server: o.server,
-            server_port: o.server_port,
-            uuid: o.uuid,
-            ...(o.flow && { flow: o.flow }),
-            ...(o.tls && { tls: o.tls }),
-            ...(o.transport && { transport: o.transport }),
-          }));
+          // Convert ProxyOutbound to Outbound
+          const converted: Outbound[] = result.outbounds.map(o => ({ ...o }));
           // Clear endpoints and set outbounds
           setEndpoints([]);
+          setGroups([]);
           setOutbounds(converted);
+          clearCustom();
+          skipped = [...result.errors, ...result.warnings].map(e => `Строка ${e.lineNumber}: ${e.error}`);
+          break;
+        }
+        case "clash": {
+          const result = parseClashConfig(text);
+          if (!result.success) {
+            setError(result.errors.join("\n") || "Не найдено поддерживаемых прокси");
+            return;
+          }
+          setOutbounds(result.outbounds.map(o => ({ ...o })));
+          setEndpoints(result.endpoints);
+          setGroups(result.groups.map(g => ({ ...g })));
+          clearCustom();
+          skipped = result.errors;
+          break;
+        }
+        case "singbox": {
+          const result = parseSingboxConfig(text);
+          if (!result.success) {
+            setError(result.errors.join("\n") || "Не найдено outbounds или endpoints");
+            return;
+          }
+          // Servers go to the editor, the rest of the config is kept as is
+          setOutbounds(result.outbounds);
+          setEndpoints(result.endpoints);
+          setGroups(result.groups);
+          setCustom(result.custom);
+          setDnsPreset(result.dnsPreset);
+          setInboundPreset(result.inboundPreset);
+          skipped = result.errors;
           break;
         }
         case "amnezia": {
-          const result = parseAmneziaConfig(input);
-          if (result.outbounds.length === 0) {
+          // vpn:// share strings carry the container config, compressed
+          const isVpnLink = text.trim().toLowerCase().startsWith("vpn://");
+          const result = isVpnLink ? await parseVpnLink(text) : parseAmneziaConfig(text);
+          if (!result.success) {
             setError(result.errors.join("\n") || "Не найдено валидных outbounds");
             return;
           }
-          const converted: Outbound[] = result.outbounds.map(o => ({
-            type: o.type,
-            tag: o.tag,
-            server: o.server,
-            server_port: o.server_port,
-            uuid: o.uuid,
-            ...(o.flow && { flow: o.flow }),
-            ...(o.tls && { tls: o.tls }),
-            ...(o.transport && { transport: o.transport }),
-          }));
-          // Clear endpoints and set outbounds
-          setEndpoints([]);
-          setOutbounds(converted);
+          setOutbounds(result.outbounds.map(o => ({ ...o })));
+          setEndpoints(result.endpoints);
+          setGroups([]);
+          // Sections of an earlier sing-box import don't carry over
+          clearCustom();
+          // freedom/blackhole outbounds are kept next to the system ones
+          const imported: CustomSections = {};
+          if (result.serviceOutbounds.length > 0) {
+            imported.outbounds = result.serviceOutbounds.map(o => ({ ...o }));
+          }
+          // DNS servers of the Amnezia server replace the preset
+          if ("dns" in result && result.dns) {
+            imported.dns = result.dns;
+            setDnsPreset("custom");
+          }
+          setCustom(imported);
+          skipped = [...result.errors, ...result.warnings];
           break;
         }
-        case "awg": {
-          const result = parseAwgConfig(input);
+        case "backup": {
+          const result = parseAmneziaBackup(text);
+          if (result.entries.length === 0) {
+            setError(result.errors.join("\n") || "Не найдено серверов");
+            return;
+          }
+          // Show the list; conversion happens on "Импортировать"
+          setBackupEntries(result.entries);
+          setSelectedEntries(result.entries.flatMap((entry, i) => (entry.result ? [i] : [])));
+          if (result.errors.length > 0) {
+            setWarnings(result.errors);
+          }
+          return;
+        }
+        case "awg":
+        case "wireguard": {
+          const result = importMode === "awg" ? parseAwgConfig(text) : parseWireguardConfig(text);
           if (!result.success || !result.endpoint) {
-            setError(result.errors?.join("\n") || "Ошибка парсинга AWG конфига");
+            setError(result.errors?.join("\n") || "Ошибка парсинга WireGuard конфига");
             return;
           }
-          // AWG returns a single endpoint - store in endpoints, not outbounds
+          // AWG/WireGuard returns a single endpoint - store in endpoints, not outbounds
           const ep = result.endpoint;
+          skipped = result.errors;
+          setGroups([]);
+          clearCustom();
+          if (ep.type === "wireguard") {
+            // Plain WireGuard has no obfuscation fields to filter
+            setOutbounds([]);
+            setEndpoints([ep]);
+            break;
+          }
           const awgEndpoint: AwgEndpointConfig = {
             type: "awg",
             tag: ep.tag,
@@ -111,16 +198,127 @@ export function ImportStep() {
           break;
         }
       }
+      // Stay on this step so skipped entries can be reviewed
+      if (skipped.length > 0) {
+        setWarnings(skipped);
+        return;
+      }
       nextStep();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Ошибка парсинга");
     }
-  }, [input, mode, setOutbounds, nextStep]);
+  }, [
+    setOutbounds,
+    setEndpoints,
+    setGroups,
+    setCustom,
+    clearCustom,
+    setDnsPreset,
+    setInboundPreset,
+    nextStep,
+  ]);
+
+  const handleParse = useCallback(() => parseInput(input, mode), [parseInput, input, mode]);
+
+  // Text from a QR code goes to the matching tab and is parsed right away
+  const handleQrImage = useCallback(
+    async (image: Blob) => {
+      setError(null);
+      setWarnings([]);
+      setBackupEntries([]);
+
+      let text: string;
+      try {
+        text = await decodeQrImage(image);
+      } catch (err) {
+        setError(`QR: ${err instanceof Error ? err.message : "decode failed"}`);
+        return;
+      }
+
+      const qrMode = detectQrMode(text);
+      setMode(qrMode);
+      setInput(text);
+      await parseInput(text, qrMode);
+    },
+    [parseInput]
+  );
+
+  const handlePaste = useCallback(
+    (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+      const image = Array.from(e.clipboardData.files).find((file) => file.type.startsWith("image/"));
+      if (!image) return;
+      e.preventDefault();
+      void handleQrImage(image);
+    },
+    [handleQrImage]
+  );
+
+  const handleBackupImport = useCallback(() => {
+    const selected = selectedEntries.map((i) => backupEntries[i]).filter((entry) => entry.result);
+    if (selected.length === 0) {
+      setError("Не выбрано ни одного контейнера");
+      return;
+    }
+
+    const importedOutbounds: Outbound[] = [];
+    const importedEndpoints: EndpointConfig[] = [];
+    const serviceOutbounds = new Map<string, Outbound>();
+    const skipped: string[] = [];
+
+    for (const entry of selected) {
+      const result = entry.result!;
+      importedOutbounds.push(...result.outbounds.map(o => ({ ...o })));
+      importedEndpoints.push(...result.endpoints);
+      // Every XRay config brings its own "block", keep one per tag
+      for (const o of result.serviceOutbounds) {
+        serviceOutbounds.set(o.tag, { ...o });
+      }
+      skipped.push(...[...result.errors, ...result.warnings].map(e => `${entry.server} / ${entry.container}: ${e}`));
+    }
+
+    setError(null);
+    setBackupEntries([]);
+    setOutbounds(importedOutbounds);
+    setEndpoints(importedEndpoints);
+    setGroups([]);
+    clearCustom();
+    if (serviceOutbounds.size > 0) {
+      setCustom({ outbounds: [...serviceOutbounds.values()] });
+    }
+
+    if (skipped.length > 0) {
+      setWarnings(skipped);
+      return;
+    }
+    nextStep();
+  }, [
+    backupEntries,
+    selectedEntries,
+    setOutbounds,
+    setEndpoints,
+    setGroups,
+    setCustom,
+    clearCustom,
+    nextStep,
+  ]);
+
+  const toggleEntry = (index: number) => {
+    setSelectedEntries((prev) =>
+      prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index],
+    );
+  };
 
   const handleFileUpload = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
+      // Allow picking the same file again after an error
+      e.target.value = "";
+
+      if (file.type.startsWith("image/")) {
+        void handleQrImage(file);
+        return;
+      }
 
       const reader = new FileReader();
       reader.onload = (event) => {
@@ -129,19 +327,27 @@ export function ImportStep() {
       };
       reader.readAsText(file);
     },
-    []
+    [handleQrImage]
   );
 
   const modes: { id: ImportMode; label: string }[] = [
-    { id: "vless", label: "VLESS ссылки" },
+    { id: "links", label: "Ссылки" },
+    { id: "clash", label: "Clash / Mihomo" },
+    { id: "singbox", label: "sing-box" },
     { id: "amnezia", label: "AmneziaVPN" },
+    { id: "backup", label: "Amnezia backup" },
     { id: "awg", label: "AmneziaWG" },
+    { id: "wireguard", label: "WireGuard" },
   ];
 
   const placeholders: Record<ImportMode, string> = {
-    vless: "vless://uuid@server:port?...\nvless://uuid@server2:port?...",
-    amnezia: '{\n  "outbounds": [...]\n}',
-    awg: "[Interface]\nPrivateKey = ...\n\n[Peer]\nPublicKey = ...",
+    links: "vless://uuid@server:port?...\nvmess://base64...",
+    clash: "proxies:\n  - name: node-1\n    type: vless\n    server: ...\nproxy-groups:\n  - ...",
+    singbox: '{\n  "dns": {...},\n  "inbounds": [...],\n  "outbounds": [...]\n}',
+    amnezia: 'vpn://AAAB...\n\n{\n  "outbounds": [...]\n}',
+    backup: '{\n  "Servers/serversList": [...]\n}',
+    awg: "[Interface]\nPrivateKey = ...\nJc = 4\n...\n\n[Peer]\nPublicKey = ...",
+    wireguard: "[Interface]\nPrivateKey = ...\n\n[Peer]\nPublicKey = ...",
   };
 
   return (
@@ -160,6 +366,8 @@ export function ImportStep() {
             onClick={() => {
               setMode(m.id);
               setError(null);
+              setWarnings([]);
+              setBackupEntries([]);
             }}
           >
             {m.label}
@@ -173,6 +381,7 @@ export function ImportStep() {
         placeholder={placeholders[mode]}
         value={input}
         onChange={(e) => setInput(e.target.value)}
+        onPaste={handlePaste}
         rows={8}
       />
 
@@ -182,7 +391,15 @@ export function ImportStep() {
           <input
             ref={fileInputRef}
             type="file"
-            accept={mode === "awg" ? ".conf" : ".json,.txt"}
+            accept={
+              mode === "awg" || mode === "wireguard"
+                ? ".conf,.png,.jpg,.jpeg"
+                : mode === "clash"
+                  ? ".yaml,.yml,.txt"
+                  : mode === "backup"
+                    ? ".backup,.json"
+                    : ".json,.txt,.png,.jpg,.jpeg"
+            }
             onChange={handleFileUpload}
           />
           <label
@@ -190,20 +407,65 @@ export function ImportStep() {
             onClick={() => fileInputRef.current?.click()}
           >
             <Upload size={14} />
-            Загрузить файл
+            Загрузить файл / QR
           </label>
         </div>
 
-        <button
-          className="terminal-btn primary"
-          onClick={handleParse}
-          disabled={!input.trim()}
-        >
-          <FileText size={14} />
-          Парсить
-        </button>
+        <div className="flex gap-2">
+          <button
+            className="terminal-btn primary"
+            onClick={handleParse}
+            disabled={!input.trim()}
+          >
+            <FileText size={14} />
+            Парсить
+          </button>
+          {warnings.length > 0 && backupEntries.length === 0 && (
+            <button className="terminal-btn" onClick={nextStep}>
+              Далее
+              <ArrowRight size={14} />
+            </button>
+          )}
+        </div>
       </div>
 
+      {/* Amnezia backup: pick server/container pairs */}
+      {backupEntries.length > 0 && (
+        <div className="mt-4">
+          <div className="terminal-radio-group">
+            {backupEntries.map((entry, i) => (
+              <div
+                key={i}
+                className={`terminal-radio ${selectedEntries.includes(i) ? "selected" : ""} ${entry.result ? "" : "disabled"}`}
+                onClick={() => entry.result && toggleEntry(i)}
+              >
+                <div className="terminal-checkbox-box" />
+                <div>
+                  <div className="terminal-radio-label">
+                    {entry.server} / {entry.container}
+                  </div>
+                  <div className="terminal-radio-desc">
+                    {entry.result
+                      ? [...entry.result.outbounds, ...entry.result.endpoints].map((o) => `${o.tag} (${o.type})`).join(", ")
+                      : `Пропущен: ${entry.reason}`}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end mt-4">
+            <button
+              className="terminal-btn primary"
+              onClick={handleBackupImport}
+              disabled={selectedEntries.length === 0}
+            >
+              <Download size={14} />
+              Импортировать ({selectedEntries.length})
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Error */}
       {error && (
         <div className="mt-4 p-3 rounded bg-[rgba(202,71,84,0.1)] text-[var(--terminal-error)] text-sm whitespace-pre-wrap">
@@ -211,6 +473,15 @@ export function ImportStep() {
         </div>
       )}
 
+      {/* Skipped or expanded entries */}
+      {warnings.length > 0 && (
+        <div className="mt-4 p-3 rounded bg-[rgba(226,183,20,0.1)] text-[var(--terminal-warning)] text-sm whitespace-pre-wrap">
+          Предупреждений: {warnings.length}
+          {"\n"}
+          {warnings.join("\n")}
+        </div>
+      )}
+
       {/* Parsed outbounds/endpoints preview */}
       {(outbounds.length > 0 || endpoints.length > 0) && (
         <div className="terminal-outbounds">
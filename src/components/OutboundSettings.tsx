@@ -0,0 +1,135 @@
+import { useConfigStore } from "@/stores/config";
+import type { Outbound } from "@/lib/builder";
+import type { MultiplexConfig, MultiplexProtocol, PacketEncoding } from "@/lib/parsers";
+
+// Outbound types sing-box can multiplex
+const MULTIPLEX_TYPES = ["vless", "vmess", "trojan", "shadowsocks"];
+// Outbound types with UDP packet encoding
+const PACKET_ENCODING_TYPES = ["vless", "vmess"];
+
+const multiplexProtocols: MultiplexProtocol[] = ["h2mux", "smux", "yamux"];
+const packetEncodings: PacketEncoding[] = ["xudp", "packetaddr"];
+
+export function OutboundSettings() {
+  const { outbounds, updateOutbound } = useConfigStore();
+
+  const editable = outbounds
+    .map((outbound, index) => ({ outbound, index }))
+    .filter(({ outbound }) => MULTIPLEX_TYPES.includes(outbound.type));
+
+  if (editable.length === 0) {
+    return null;
+  }
+
+  // Cleared options are removed instead of being written as undefined
+  const update = (index: number, outbound: Outbound, key: string, value: unknown) => {
+    const next: Outbound = { ...outbound, [key]: value };
+    if (value === undefined) {
+      delete next[key];
+    }
+    updateOutbound(index, next);
+  };
+
+  const updateMultiplex = (index: number, outbound: Outbound, patch: Partial<MultiplexConfig>) => {
+    const multiplex = { ...(outbound.multiplex as MultiplexConfig), ...patch };
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === undefined) {
+        delete multiplex[key as keyof MultiplexConfig];
+      }
+    }
+    update(index, outbound, "multiplex", multiplex);
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="text-xs text-[var(--terminal-text-dim)] mb-3 uppercase tracking-wider">
+        Multiplex / UDP
+      </div>
+      <div className="terminal-outbounds">
+        {editable.map(({ outbound, index }) => {
+          const multiplex = outbound.multiplex as MultiplexConfig | undefined;
+          const packetEncoding = outbound.packet_encoding as PacketEncoding | undefined;
+
+          return (
+            <div key={index} className="terminal-outbound flex-wrap gap-2">
+              <span className="terminal-outbound-name">{outbound.tag}</span>
+              <div className="flex items-center gap-2 flex-wrap">
+                <select
+                  className="terminal-input compact"
+                  title="Multiplex"
+                  value={multiplex?.enabled ? multiplex.protocol ?? "h2mux" : "off"}
+                  onChange={(e) =>
+                    e.target.value === "off"
+                      ? update(index, outbound, "multiplex", undefined)
+                      : updateMultiplex(index, outbound, {
+                          enabled: true,
+                          protocol: e.target.value as MultiplexProtocol,
+                        })
+                  }
+                >
+                  <option value="off">mux выкл</option>
+                  {multiplexProtocols.map((protocol) => (
+                    <option key={protocol} value={protocol}>
+                      {protocol}
+                    </option>
+                  ))}
+                </select>
+
+                {multiplex?.enabled && (
+                  <>
+                    <input
+                      className="terminal-input compact w-24"
+                      type="number"
+                      min={1}
+                      placeholder="соединений"
+                      title="max_connections"
+                      value={multiplex.max_connections ?? ""}
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        updateMultiplex(index, outbound, {
+                          max_connections: value > 0 ? value : undefined,
+                        });
+                      }}
+                    />
+                    <label className="flex items-center gap-1 text-xs text-[var(--terminal-text-dim)]">
+                      <input
+                        type="checkbox"
+                        className="accent-[var(--terminal-main)]"
+                        checked={!!multiplex.padding}
+                        onChange={(e) =>
+                          updateMultiplex(index, outbound, {
+                            padding: e.target.checked || undefined,
+                          })
+                        }
+                      />
+                      padding
+                    </label>
+                  </>
+                )}
+
+                {PACKET_ENCODING_TYPES.includes(outbound.type) && (
+                  <select
+                    className="terminal-input compact"
+                    title="packet_encoding"
+                    value={packetEncoding ?? ""}
+                    onChange={(e) =>
+                      update(index, outbound, "packet_encoding", e.target.value || undefined)
+                    }
+                  >
+                    <option value="">udp по умолчанию</option>
+                    {packetEncodings.map((encoding) => (
+                      <option key={encoding} value={encoding}>
+                        {encoding}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <span className="terminal-outbound-type">{outbound.type}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
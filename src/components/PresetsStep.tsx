@@ -1,9 +1,12 @@
 import { ArrowLeft, ArrowRight } from "lucide-react";
 import { useConfigStore } from "@/stores/config";
+import { OutboundSettings } from "@/components/OutboundSettings";
 import { dnsPresets } from "@/templates/dns";
 import { inboundPresets } from "@/templates/inbounds";
+import { singboxVersions } from "@/templates/versions";
 import type { DnsPreset } from "@/templates/dns";
 import type { InboundPreset } from "@/templates/inbounds";
+import type { SingboxVersion } from "@/templates/versions";
 
 export function PresetsStep() {
   const {
@@ -11,13 +14,17 @@ export function PresetsStep() {
     setDnsPreset,
     inboundPreset,
     setInboundPreset,
+    singboxVersion,
+    setSingboxVersion,
     prevStep,
     nextStep,
     outbounds,
+    custom,
   } = useConfigStore();
 
   const dnsOptions = Object.entries(dnsPresets) as [DnsPreset, typeof dnsPresets[DnsPreset]][];
   const inboundOptions = Object.entries(inboundPresets) as [InboundPreset, typeof inboundPresets[InboundPreset]][];
+  const versionOptions = Object.entries(singboxVersions) as [SingboxVersion, typeof singboxVersions[SingboxVersion]][];
 
   return (
     <div className="terminal-card">
@@ -26,6 +33,28 @@ export function PresetsStep() {
         настройки
       </div>
 
+      {/* Target sing-box version */}
+      <div className="mb-6">
+        <div className="text-xs text-[var(--terminal-text-dim)] mb-3 uppercase tracking-wider">
+          Версия sing-box
+        </div>
+        <div className="terminal-radio-group">
+          {versionOptions.map(([key, version]) => (
+            <div
+              key={key}
+              className={`terminal-radio ${singboxVersion === key ? "selected" : ""}`}
+              onClick={() => setSingboxVersion(key)}
+            >
+              <div className="terminal-radio-dot" />
+              <div>
+                <div className="terminal-radio-label">{version.label}</div>
+                <div className="terminal-radio-desc">{version.desc}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
       {/* DNS presets */}
       <div className="mb-6">
         <div className="text-xs text-[var(--terminal-text-dim)] mb-3 uppercase tracking-wider">
@@ -45,6 +74,18 @@ export function PresetsStep() {
               </div>
             </div>
           ))}
+          {custom.dns && (
+            <div
+              className={`terminal-radio ${dnsPreset === "custom" ? "selected" : ""}`}
+              onClick={() => setDnsPreset("custom")}
+            >
+              <div className="terminal-radio-dot" />
+              <div>
+                <div className="terminal-radio-label">Из импорта</div>
+                <div className="terminal-radio-desc">DNS блок из загруженного config.json</div>
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -67,9 +108,26 @@ export function PresetsStep() {
               </div>
             </div>
           ))}
+          {custom.inbounds && (
+            <div
+              className={`terminal-radio ${inboundPreset === "custom" ? "selected" : ""}`}
+              onClick={() => setInboundPreset("custom")}
+            >
+              <div className="terminal-radio-dot" />
+              <div>
+                <div className="terminal-radio-label">Из импорта</div>
+                <div className="terminal-radio-desc">
+                  {custom.inbounds.map((inbound) => inbound.tag).join(", ")}
+                </div>
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Per-outbound multiplex and UDP options */}
+      <OutboundSettings />
+
       {/* Outbounds summary */}
       <div className="mb-6 p-3 rounded bg-[var(--terminal-bg-tertiary)]">
         <div className="text-xs text-[var(--terminal-text-dim)]">
@@ -0,0 +1,50 @@
+import { useMemo } from "react";
+import { encode } from "uqr";
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+/**
+ * QR code drawn as a single SVG path, encoded locally
+ * Dark modules on a white background so phone cameras read it on a dark theme
+ */
+export function QrCode({ value, size = 256 }: QrCodeProps) {
+  const qr = useMemo(() => {
+    try {
+      // Medium correction: screens photographed at an angle lose some modules
+      const { data, size: modules } = encode(value, { ecc: "M", border: 2 });
+      let path = "";
+      data.forEach((row, y) =>
+        row.forEach((dark, x) => {
+          if (dark) path += `M${x} ${y}h1v1h-1z`;
+        }),
+      );
+      return { path, modules };
+    } catch {
+      return null;
+    }
+  }, [value]);
+
+  if (!qr) {
+    return (
+      <div className="text-xs text-[var(--terminal-error)]">
+        Слишком много данных для QR-кода ({value.length} символов)
+      </div>
+    );
+  }
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${qr.modules} ${qr.modules}`}
+      shapeRendering="crispEdges"
+      className="rounded"
+    >
+      <rect width={qr.modules} height={qr.modules} fill="#fff" />
+      <path d={qr.path} fill="#000" />
+    </svg>
+  );
+}
@@ -1,66 +1,153 @@
 import { useState, useMemo, useCallback } from "react";
-import { ArrowLeft, Download, Copy, Check, RotateCcw } from "lucide-react";
+import { ArrowLeft, Download, Copy, Check, RotateCcw, Link, FileDown, QrCode as QrIcon, X } from "lucide-react";
 import { useConfigStore } from "@/stores/config";
 import { buildConfig } from "@/lib/builder";
+import { validateConfig } from "@/lib/validator";
+import { outboundToLink, outboundsToSubscription, remoteProfileLink } from "@/lib/exporters/links";
+import { singboxToClash } from "@/lib/exporters/clash";
+import { outboundsToXrayConfig } from "@/lib/exporters/xray";
+import { endpointToConf } from "@/lib/exporters/awg";
+import { QrCode } from "./QrCode";
+
+type ExportFormat = "singbox" | "clash" | "xray";
+
+const formats: { id: ExportFormat; label: string; filename: string; mime: string }[] = [
+  { id: "singbox", label: "sing-box", filename: "config.json", mime: "application/json" },
+  { id: "clash", label: "Clash Meta", filename: "config.yaml", mime: "application/yaml" },
+  { id: "xray", label: "XRay (VLESS)", filename: "xray.json", mime: "application/json" },
+];
+
+/**
+ * Copy text to clipboard, falling back to execCommand on insecure origins
+ */
+async function copyText(text: string): Promise<void> {
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch {
+    const textarea = document.createElement("textarea");
+    textarea.value = text;
+    document.body.appendChild(textarea);
+    textarea.select();
+    document.execCommand("copy");
+    document.body.removeChild(textarea);
+  }
+}
+
+/**
+ * Save text as a file via a temporary object URL
+ */
+function downloadText(text: string, filename: string, mime: string): void {
+  const blob = new Blob([text], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
 
 export function ResultStep() {
-  const { outbounds, endpoints, dnsPreset, inboundPreset, prevStep, setStep, clearOutbounds, clearEndpoints } =
-    useConfigStore();
+  const {
+    outbounds,
+    endpoints,
+    groups,
+    dnsPreset,
+    inboundPreset,
+    custom,
+    singboxVersion,
+    rules,
+    prevStep,
+    setStep,
+    clearOutbounds,
+    clearEndpoints,
+    clearGroups,
+    clearCustom,
+  } = useConfigStore();
+  const [format, setFormat] = useState<ExportFormat>("singbox");
   const [copied, setCopied] = useState(false);
+  // Which link was copied last: outbound index or "subscription"
+  const [copiedLink, setCopiedLink] = useState<number | "subscription" | null>(null);
+  // QR code currently shown under the links
+  const [qr, setQr] = useState<{ title: string; value: string } | null>(null);
+  // Where the user hosts config.json for the remote-profile deep link
+  const [profileUrl, setProfileUrl] = useState("");
 
-  const config = useMemo(() => {
-    return buildConfig({
+  const buildOptions = useMemo(() => {
+    return {
       outbounds,
       endpoints,
+      groups,
       dnsPreset,
       inboundPreset,
-    });
-  }, [outbounds, endpoints, dnsPreset, inboundPreset]);
-
-  const configJson = useMemo(() => {
-    return JSON.stringify(config, null, 2);
-  }, [config]);
+      custom,
+      rules,
+    };
+  }, [outbounds, endpoints, groups, dnsPreset, inboundPreset, custom, rules]);
 
-  const handleCopy = useCallback(async () => {
+  // buildConfig refuses features the target version can't express
+  const build = useMemo(() => {
     try {
-      await navigator.clipboard.writeText(configJson);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    } catch {
-      // Fallback
-      const textarea = document.createElement("textarea");
-      textarea.value = configJson;
-      document.body.appendChild(textarea);
-      textarea.select();
-      document.execCommand("copy");
-      document.body.removeChild(textarea);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
+      const config = buildConfig({ ...buildOptions, version: singboxVersion });
+      return { json: JSON.stringify(config, null, 2), issues: validateConfig(config) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : "Ошибка сборки конфига" };
+    }
+  }, [buildOptions, singboxVersion]);
+
+  // Other formats are converted only when their tab is open
+  const converted = useMemo(() => {
+    switch (format) {
+      case "clash": {
+        // Clash Meta has no version constraints, it reads the latest layout
+        const result = singboxToClash(buildConfig({ ...buildOptions, version: "1.13" }));
+        return { text: result.yaml, warnings: result.warnings };
+      }
+      case "xray": {
+        const result = outboundsToXrayConfig(outbounds);
+        return { text: result.json, warnings: result.warnings };
+      }
+      default:
+        return null;
     }
-  }, [configJson]);
+  }, [format, buildOptions, outbounds]);
+
+  const current = formats.find((f) => f.id === format)!;
+  const output = converted ? converted.text : build.json ?? "";
+
+  const handleCopy = useCallback(async () => {
+    await copyText(output);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }, [output]);
+
+  const links = useMemo(() => outbounds.map(outboundToLink), [outbounds]);
+  const hasLinks = links.some((result) => "link" in result);
+  const isProfileUrlValid = /^https?:\/\/\S+$/.test(profileUrl.trim());
+
+  const handleCopyLink = useCallback(async (key: number | "subscription", text: string) => {
+    await copyText(text);
+    setCopiedLink(key);
+    setTimeout(() => setCopiedLink(null), 2000);
+  }, []);
 
   const handleDownload = useCallback(() => {
-    const blob = new Blob([configJson], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "config.json";
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [configJson]);
+    downloadText(output, current.filename, current.mime);
+  }, [output, current]);
 
   const handleReset = useCallback(() => {
     clearOutbounds();
     clearEndpoints();
+    clearGroups();
+    clearCustom();
     setStep(1);
-  }, [clearOutbounds, clearEndpoints, setStep]);
+  }, [clearOutbounds, clearEndpoints, clearGroups, clearCustom, setStep]);
 
   return (
     <div className="terminal-card">
       <div className="terminal-card-title">
-        <span className="step-number">3</span>
+        <span className="step-number">4</span>
         результат
       </div>
 
@@ -76,22 +163,80 @@ export function ResultStep() {
             {endpoints.length} endpoints
           </div>
         )}
+        {groups.length > 0 && (
+          <div className="terminal-badge info">
+            {groups.length} groups
+          </div>
+        )}
         <div className="terminal-badge success">
           {dnsPreset} dns
         </div>
         <div className="terminal-badge success">
           {inboundPreset} inbound
         </div>
+        <div className="terminal-badge success">
+          sing-box {singboxVersion}
+        </div>
       </div>
 
+      {/* Format tabs */}
+      <div className="terminal-tabs">
+        {formats.map((f) => (
+          <button
+            key={f.id}
+            className={`terminal-tab ${format === f.id ? "active" : ""}`}
+            onClick={() => setFormat(f.id)}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Fields lost in conversion */}
+      {converted && converted.warnings.length > 0 && (
+        <div className="mb-4 p-3 rounded bg-[rgba(226,183,20,0.1)] text-[var(--terminal-warning)] text-sm whitespace-pre-wrap">
+          Не перенесено в {current.label}: {converted.warnings.length}
+          {"\n"}
+          {converted.warnings.join("\n")}
+        </div>
+      )}
+
+      {/* Target version can't express the import */}
+      {format === "singbox" && build.error && (
+        <div className="mb-4 p-3 rounded bg-[rgba(202,71,84,0.1)] text-[var(--terminal-error)] text-sm whitespace-pre-wrap">
+          Конфиг нельзя собрать для sing-box {singboxVersion}, выберите другую версию на шаге настроек или уберите:
+          {"\n"}
+          {build.error}
+        </div>
+      )}
+
+      {/* Validation: broken references, tag collisions, ports, TUN CIDRs */}
+      {format === "singbox" && build.issues && build.issues.length > 0 && (
+        <div className="mb-4 p-3 rounded bg-[var(--terminal-bg-tertiary)] text-sm">
+          <div className="text-xs text-[var(--terminal-text-dim)] mb-2">
+            Проверка: ошибок {build.issues.filter((issue) => issue.severity === "error").length},
+            предупреждений {build.issues.filter((issue) => issue.severity === "warning").length}
+          </div>
+          {build.issues.map((issue, i) => (
+            <div
+              key={i}
+              className={issue.severity === "error" ? "text-[var(--terminal-error)]" : "text-[var(--terminal-warning)]"}
+            >
+              <span className="text-[var(--terminal-text-dim)]">{issue.path}:</span> {issue.message}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Result preview */}
       <div className="terminal-result">
         <div className="terminal-result-header">
-          <span className="terminal-result-title">config.json</span>
+          <span className="terminal-result-title">{current.filename}</span>
           <div className="terminal-result-actions">
             <button
               className="terminal-btn"
               onClick={handleCopy}
+              disabled={!output}
               title="Копировать"
             >
               {copied ? <Check size={14} /> : <Copy size={14} />}
@@ -100,6 +245,7 @@ export function ResultStep() {
             <button
               className="terminal-btn primary"
               onClick={handleDownload}
+              disabled={!output}
               title="Скачать"
             >
               <Download size={14} />
@@ -108,10 +254,136 @@ export function ResultStep() {
           </div>
         </div>
         <div className="terminal-result-content">
-          <pre>{configJson}</pre>
+          <pre>{output}</pre>
         </div>
       </div>
 
+      {/* Share links */}
+      {outbounds.length > 0 && (
+        <div className="terminal-result mt-4">
+          <div className="terminal-result-header">
+            <span className="terminal-result-title">ссылки</span>
+            <div className="terminal-result-actions">
+              <button
+                className="terminal-btn"
+                onClick={() => handleCopyLink("subscription", outboundsToSubscription(outbounds))}
+                disabled={!hasLinks}
+                title="Все ссылки одной base64-подпиской"
+              >
+                {copiedLink === "subscription" ? <Check size={14} /> : <Copy size={14} />}
+                Подписка (base64)
+              </button>
+              <button
+                className="terminal-btn"
+                onClick={() => setQr({ title: "подписка (base64)", value: outboundsToSubscription(outbounds) })}
+                disabled={!hasLinks}
+                title="QR-код подписки"
+              >
+                <QrIcon size={14} />
+              </button>
+            </div>
+          </div>
+          <div className="terminal-result-content">
+            {outbounds.map((o, i) => {
+              const result = links[i];
+              return (
+                <div key={i} className="flex items-center justify-between gap-2 py-1">
+                  <span className="terminal-outbound-name">{o.tag}</span>
+                  {"link" in result ? (
+                    <div className="flex gap-2">
+                      <button
+                        className="terminal-btn"
+                        onClick={() => handleCopyLink(i, result.link)}
+                        title={result.link}
+                      >
+                        {copiedLink === i ? <Check size={14} /> : <Link size={14} />}
+                        {copiedLink === i ? "Скопировано" : o.type}
+                      </button>
+                      <button
+                        className="terminal-btn"
+                        onClick={() => setQr({ title: o.tag, value: result.link })}
+                        title="QR-код ссылки"
+                      >
+                        <QrIcon size={14} />
+                      </button>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-[var(--terminal-text-dimmer)]">{result.error}</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* sing-box remote profile deep link */}
+      <div className="terminal-result mt-4">
+        <div className="terminal-result-header">
+          <span className="terminal-result-title">remote profile</span>
+          <div className="terminal-result-actions">
+            <button
+              className="terminal-btn"
+              onClick={() => setQr({ title: "remote profile", value: remoteProfileLink(profileUrl.trim(), "singcraft") })}
+              disabled={!isProfileUrlValid}
+              title="QR-код для SFA/SFI/Hiddify"
+            >
+              <QrIcon size={14} />
+              QR
+            </button>
+          </div>
+        </div>
+        <div className="terminal-result-content">
+          <input
+            className="terminal-input"
+            value={profileUrl}
+            onChange={(e) => setProfileUrl(e.target.value)}
+            placeholder="https://example.com/config.json — где будет лежать скачанный config.json"
+          />
+        </div>
+      </div>
+
+      {/* QR code, generated locally */}
+      {qr && (
+        <div className="terminal-result mt-4">
+          <div className="terminal-result-header">
+            <span className="terminal-result-title">qr: {qr.title}</span>
+            <div className="terminal-result-actions">
+              <button className="terminal-btn" onClick={() => setQr(null)} title="Закрыть">
+                <X size={14} />
+              </button>
+            </div>
+          </div>
+          <div className="terminal-result-content flex justify-center">
+            <QrCode value={qr.value} />
+          </div>
+        </div>
+      )}
+
+      {/* AmneziaWG / WireGuard .conf files */}
+      {endpoints.length > 0 && (
+        <div className="terminal-result mt-4">
+          <div className="terminal-result-header">
+            <span className="terminal-result-title">.conf</span>
+          </div>
+          <div className="terminal-result-content">
+            {endpoints.map((endpoint, i) => (
+              <div key={i} className="flex items-center justify-between gap-2 py-1">
+                <span className="terminal-outbound-name">{endpoint.tag}</span>
+                <button
+                  className="terminal-btn"
+                  onClick={() => downloadText(endpointToConf(endpoint), `${endpoint.tag}.conf`, "text/plain")}
+                  title={endpoint.type === "awg" ? "Для приложения AmneziaWG" : "Для приложения WireGuard"}
+                >
+                  <FileDown size={14} />
+                  {endpoint.tag}.conf
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Navigation */}
       <div className="flex justify-between mt-4">
         <button className="terminal-btn" onClick={prevStep}>
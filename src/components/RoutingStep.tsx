@@ -0,0 +1,179 @@
+import { ArrowLeft, ArrowRight, ArrowUp, ArrowDown, Plus, Trash2 } from "lucide-react";
+import { useConfigStore } from "@/stores/config";
+import { blockTarget, systemOutboundTags } from "@/lib/builder";
+import type { RouteRule, RouteRuleField } from "@/lib/builder";
+
+const ruleFields: { id: RouteRuleField; label: string; placeholder: string }[] = [
+  { id: "domain", label: "domain", placeholder: "example.com, www.example.com" },
+  { id: "domain_suffix", label: "domain_suffix", placeholder: ".ru, youtube.com" },
+  { id: "domain_keyword", label: "domain_keyword", placeholder: "google, netflix" },
+  { id: "ip_cidr", label: "ip_cidr", placeholder: "10.8.0.0/24, 1.1.1.1" },
+  { id: "port", label: "port", placeholder: "22, 3389, 6881:6889" },
+  { id: "network", label: "network", placeholder: "" },
+];
+
+const networks = ["tcp", "udp"];
+
+const emptyRule: RouteRule = { field: "domain_suffix", values: [], outbound: "direct" };
+
+export function RoutingStep() {
+  const {
+    outbounds,
+    endpoints,
+    groups,
+    custom,
+    rules,
+    addRule,
+    updateRule,
+    removeRule,
+    moveRule,
+    prevStep,
+    nextStep,
+  } = useConfigStore();
+
+  // Any outbound, endpoint, group or system outbound, plus block
+  // ("auto" is only generated when there is something to test)
+  const hasServers = outbounds.length + endpoints.length > 0;
+  const targets = [
+    ...new Set([
+      ...systemOutboundTags.filter((tag) => tag !== "auto" || hasServers),
+      ...groups.map((g) => g.tag),
+      ...outbounds.map((o) => o.tag),
+      ...endpoints.map((ep) => ep.tag),
+      ...(custom.outbounds ?? []).map((o) => o.tag),
+      blockTarget,
+    ]),
+  ];
+
+  // Switching to network keeps only valid values
+  const changeField = (index: number, rule: RouteRule, field: RouteRuleField) => {
+    const values = field === "network" ? ["tcp"] : rule.field === "network" ? [] : rule.values;
+    updateRule(index, { ...rule, field, values });
+  };
+
+  return (
+    <div className="terminal-card">
+      <div className="terminal-card-title">
+        <span className="step-number">3</span>
+        маршрутизация
+      </div>
+
+      <div className="text-xs text-[var(--terminal-text-dim)] mb-4">
+        Правила проверяются сверху вниз, раньше встроенного ip_is_private → direct.
+        Всё, что не совпало, уходит в proxy. Значения через запятую.
+      </div>
+
+      {/* Rules */}
+      {rules.length > 0 && (
+        <div className="terminal-outbounds mb-4">
+          {rules.map((rule, index) => {
+            const field = ruleFields.find((f) => f.id === rule.field)!;
+            // A saved rule may point at an outbound from a previous import
+            const isStale = !targets.includes(rule.outbound);
+
+            return (
+              <div key={index} className="terminal-outbound flex-wrap gap-2">
+                <div className="flex items-center gap-2 flex-wrap flex-1">
+                  <select
+                    className="terminal-input compact"
+                    title="Поле"
+                    value={rule.field}
+                    onChange={(e) => changeField(index, rule, e.target.value as RouteRuleField)}
+                  >
+                    {ruleFields.map((f) => (
+                      <option key={f.id} value={f.id}>
+                        {f.label}
+                      </option>
+                    ))}
+                  </select>
+
+                  {rule.field === "network" ? (
+                    <select
+                      className="terminal-input compact"
+                      title="Сеть"
+                      value={rule.values[0] ?? "tcp"}
+                      onChange={(e) => updateRule(index, { ...rule, values: [e.target.value] })}
+                    >
+                      {networks.map((network) => (
+                        <option key={network} value={network}>
+                          {network}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      className="terminal-input compact flex-1 min-w-48"
+                      placeholder={field.placeholder}
+                      value={rule.values.join(", ")}
+                      onChange={(e) =>
+                        updateRule(index, {
+                          ...rule,
+                          values: e.target.value.split(",").map((value) => value.trim()),
+                        })
+                      }
+                    />
+                  )}
+
+                  <span className="text-xs text-[var(--terminal-text-dim)]">→</span>
+
+                  <select
+                    className="terminal-input compact"
+                    title="Куда направить"
+                    value={rule.outbound}
+                    onChange={(e) => updateRule(index, { ...rule, outbound: e.target.value })}
+                  >
+                    {isStale && <option value={rule.outbound}>{rule.outbound} (нет в импорте)</option>}
+                    {targets.map((tag) => (
+                      <option key={tag} value={tag}>
+                        {tag}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex items-center gap-1">
+                  <button
+                    className="terminal-btn"
+                    onClick={() => moveRule(index, index - 1)}
+                    disabled={index === 0}
+                    title="Выше"
+                  >
+                    <ArrowUp size={14} />
+                  </button>
+                  <button
+                    className="terminal-btn"
+                    onClick={() => moveRule(index, index + 1)}
+                    disabled={index === rules.length - 1}
+                    title="Ниже"
+                  >
+                    <ArrowDown size={14} />
+                  </button>
+                  <button className="terminal-btn" onClick={() => removeRule(index)} title="Удалить">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <button className="terminal-btn mb-6" onClick={() => addRule(emptyRule)}>
+        <Plus size={14} />
+        Добавить правило
+      </button>
+
+      {/* Navigation */}
+      <div className="flex justify-between">
+        <button className="terminal-btn" onClick={prevStep}>
+          <ArrowLeft size={14} />
+          Назад
+        </button>
+        <button className="terminal-btn primary" onClick={nextStep}>
+          Далее
+          <ArrowRight size={14} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
-import { dnsPresets } from "@/templates/dns";
-import { inboundPresets } from "@/templates/inbounds";
+import { dnsPresets, defaultDnsPreset } from "@/templates/dns";
+import { inboundPresets, defaultInboundPreset } from "@/templates/inbounds";
 import type { DnsPreset, DnsConfig } from "@/templates/dns";
 import type { InboundPreset, InboundConfig } from "@/templates/inbounds";
+import { defaultSingboxVersion } from "@/templates/versions";
+import type { SingboxVersion } from "@/templates/versions";
 
 export interface Outbound {
   type: string;
@@ -52,6 +54,45 @@ export interface AwgEndpointConfig {
   peers: AwgPeerConfig[];
 }
 
+// WireGuard Peer for endpoint configuration
+export interface WireguardPeerConfig {
+  address: string;
+  port: number;
+  public_key: string;
+  pre_shared_key?: string;
+  allowed_ips: string[];
+  persistent_keepalive_interval?: number;
+  reserved?: number[];
+}
+
+// Standard WireGuard endpoint configuration (sing-box format)
+export interface WireguardEndpointConfig {
+  type: "wireguard";
+  tag: string;
+  private_key: string;
+  address: string[];
+  mtu?: number;
+  listen_port?: number;
+  peers: WireguardPeerConfig[];
+}
+
+export type EndpointConfig = AwgEndpointConfig | WireguardEndpointConfig;
+
+// DNS сервер в формате до 1.12: тип и адрес в одной строке address
+export interface LegacyDnsServer {
+  tag: string;
+  address: string;
+  address_resolver?: string;
+  detour?: string;
+}
+
+export interface LegacyDnsConfig {
+  servers: LegacyDnsServer[];
+  rules?: Record<string, unknown>[];
+  final: string;
+  strategy: string;
+}
+
 export interface SingBoxConfig {
   log: {
     level: string;
@@ -68,30 +109,359 @@ export interface SingBoxConfig {
       secret: string;
     };
   };
-  dns: DnsConfig;
+  dns: DnsConfig | LegacyDnsConfig;
   inbounds: InboundConfig[];
-  endpoints?: AwgEndpointConfig[];
+  endpoints?: EndpointConfig[];
   outbounds: Outbound[];
   route: {
-    default_domain_resolver: string;
+    default_domain_resolver?: string;
     auto_detect_interface: boolean;
     final: string;
-    rules: Array<{
-      ip_is_private?: boolean;
-      outbound: string;
-    }>;
+    rules: RouteRuleConfig[];
   };
 }
 
+// Правило route в формате sing-box: условия + outbound или action
+export interface RouteRuleConfig {
+  outbound?: string;
+  action?: string;
+  [key: string]: unknown;
+}
+
+// Поля, по которым правила задаются в редакторе маршрутизации
+export type RouteRuleField = "domain" | "domain_suffix" | "domain_keyword" | "ip_cidr" | "port" | "network";
+
+// Правило из редактора: одно поле, список значений и куда направить
+// outbound — тег outbound/endpoint/группы или "block"
+export interface RouteRule {
+  field: RouteRuleField;
+  values: string[];
+  outbound: string;
+}
+
+// Цель правила, которая отбрасывает соединение
+export const blockTarget = "block";
+
+// Пресет или блок из импортированного конфига
+export type DnsSelection = DnsPreset | "custom";
+export type InboundSelection = InboundPreset | "custom";
+
+// Секции импортированного sing-box конфига, не совпавшие с пресетами
+export interface CustomSections {
+  dns?: DnsConfig;
+  inbounds?: InboundConfig[];
+  log?: Record<string, unknown>;
+  experimental?: Record<string, unknown>;
+  route?: Record<string, unknown>;
+  // Прочие служебные outbounds (block, dns, direct с другим тегом)
+  outbounds?: Outbound[];
+  // Прочие секции верхнего уровня (ntp, certificate, ...)
+  extra?: Record<string, unknown>;
+}
+
+// Секции, которые buildConfig генерирует по умолчанию
+export const defaultLog: SingBoxConfig["log"] = {
+  level: "info",
+  timestamp: true,
+};
+
+export const defaultExperimental: SingBoxConfig["experimental"] = {
+  cache_file: {
+    enabled: true,
+    path: "cache.db",
+  },
+  clash_api: {
+    external_controller: "127.0.0.1:9090",
+    external_ui: "ui",
+    secret: "",
+  },
+};
+
+export const defaultRoute: SingBoxConfig["route"] = {
+  default_domain_resolver: "local",
+  auto_detect_interface: true,
+  final: "proxy",
+  rules: [
+    {
+      ip_is_private: true,
+      outbound: "direct",
+    },
+  ],
+};
+
+// Теги outbounds, которые buildConfig создаёт сам
+export const systemOutboundTags = ["proxy", "auto", "direct"];
+
 export interface BuildOptions {
   outbounds: Outbound[];
-  endpoints?: AwgEndpointConfig[];
-  dnsPreset: DnsPreset;
-  inboundPreset: InboundPreset;
+  endpoints?: EndpointConfig[];
+  groups?: Outbound[];
+  dnsPreset: DnsSelection;
+  inboundPreset: InboundSelection;
+  custom?: CustomSections;
+  // Правила из редактора маршрутизации, проверяются раньше остальных
+  rules?: RouteRule[];
+  // Целевая версия sing-box, по умолчанию 1.12
+  version?: SingboxVersion;
+}
+
+const VERSION_ORDER: SingboxVersion[] = ["1.10", "1.11", "1.12", "1.13"];
+
+function isBefore(version: SingboxVersion, target: SingboxVersion): boolean {
+  return VERSION_ORDER.indexOf(version) < VERSION_ORDER.indexOf(target);
+}
+
+// Типы DNS серверов, у которых есть запись в старом формате address
+const LEGACY_DNS_SCHEMES = ["tcp", "tls", "https", "quic", "h3", "dhcp"];
+
+// Ключи секции dns, которые есть в 1.10/1.11 и переносятся как есть
+// (cache_capacity — с 1.11)
+const LEGACY_DNS_KEYS = [
+  "servers",
+  "rules",
+  "final",
+  "strategy",
+  "disable_cache",
+  "disable_expire",
+  "independent_cache",
+  "cache_capacity",
+  "reverse_mapping",
+  "client_subnet",
+  "fakeip",
+];
+
+function isIpAddress(host: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(":");
 }
 
+/**
+ * Конвертирует DNS в формат sing-box 1.10/1.11 (address вместо type/server)
+ * Серверы, заданные доменом, резолвятся через local; rules, fakeip и
+ * остальные ключи переносятся без изменений (см. findUnsupportedFeatures)
+ */
+function toLegacyDns(dns: DnsConfig | LegacyDnsConfig): LegacyDnsConfig {
+  const servers: LegacyDnsServer[] = dns.servers.map((server) => {
+    // Импортированный конфиг уже может быть в старом формате
+    if (!("type" in server)) {
+      return server;
+    }
+
+    const port = server.server_port ? `:${server.server_port}` : "";
+    let address: string;
+    switch (server.type) {
+      case "local":
+        address = "local";
+        break;
+      case "udp":
+        address = `${server.server}${port}`;
+        break;
+      case "https":
+      case "h3":
+        address = `${server.type}://${server.server}${port}/dns-query`;
+        break;
+      case "dhcp":
+        address = "dhcp://auto";
+        break;
+      default:
+        address = `${server.type}://${server.server}${port}`;
+    }
+
+    return {
+      tag: server.tag,
+      address,
+      ...(server.server && !isIpAddress(server.server) && { address_resolver: "local" }),
+      ...(server.detour && { detour: server.detour }),
+    };
+  });
+
+  // Вместо default_domain_resolver адреса серверов резолвит правило
+  // outbound: any, иначе dns.final с detour: proxy зациклится на самом proxy
+  const rules = ((dns as { rules?: Record<string, unknown>[] }).rules) ?? [];
+  const hasOutboundRule = rules.some((rule) => "outbound" in rule);
+  const resolverRules = hasOutboundRule ? [] : [{ outbound: "any", server: "local" }];
+
+  // address_resolver и правило ссылаются на local, добавляем его, если в пресете нет
+  const needsLocal =
+    !hasOutboundRule || servers.some((server) => server.address_resolver === "local");
+  if (needsLocal && !servers.some((server) => server.tag === "local")) {
+    servers.push({ tag: "local", address: "local" });
+  }
+
+  return { ...dns, servers, rules: [...resolverRules, ...rules] };
+}
+
+/**
+ * WireGuard endpoint -> outbound для sing-box 1.10
+ */
+function toWireguardOutbound(endpoint: WireguardEndpointConfig): Outbound {
+  const peers = endpoint.peers.map((peer) => ({
+    server: peer.address,
+    server_port: peer.port,
+    public_key: peer.public_key,
+    ...(peer.pre_shared_key && { pre_shared_key: peer.pre_shared_key }),
+    allowed_ips: peer.allowed_ips,
+    ...(peer.reserved && { reserved: peer.reserved }),
+  }));
+
+  const outbound: Outbound = {
+    type: "wireguard",
+    tag: endpoint.tag,
+    local_address: endpoint.address,
+    private_key: endpoint.private_key,
+    ...(endpoint.mtu !== undefined && { mtu: endpoint.mtu }),
+  };
+
+  // Один peer без ограничений AllowedIPs записывается в поля самого outbound,
+  // иначе — списком peers
+  if (peers.length === 1 && peers[0].allowed_ips.includes("0.0.0.0/0")) {
+    const [peer] = peers;
+    Object.assign(outbound, {
+      server: peer.server,
+      server_port: peer.server_port,
+      peer_public_key: peer.public_key,
+      ...(peer.pre_shared_key && { pre_shared_key: peer.pre_shared_key }),
+      ...(peer.reserved && { reserved: peer.reserved }),
+    });
+  } else {
+    outbound.peers = peers;
+  }
+
+  return outbound;
+}
+
+/**
+ * Правило редактора -> правило sing-box
+ * Порты-диапазоны ("1000:2000", "1000-2000") уходят в port_range,
+ * нечисловые порты остаются строками, чтобы их показал валидатор
+ */
+function toRouteRule(rule: RouteRule, version: SingboxVersion): RouteRuleConfig {
+  const values = rule.values.map((value) => value.trim()).filter(Boolean);
+  const result: RouteRuleConfig = {};
+
+  if (rule.field === "port") {
+    const ports = values.filter((value) => !/^\d*[:-]\d*$/.test(value));
+    const ranges = values.filter((value) => /^\d*[:-]\d*$/.test(value)).map((value) => value.replace("-", ":"));
+    if (ports.length > 0) {
+      result.port = ports.map((value) => (/^\d+$/.test(value) ? parseInt(value, 10) : value));
+    }
+    if (ranges.length > 0) {
+      result.port_range = ranges;
+    }
+  } else {
+    result[rule.field] = values;
+  }
+
+  // block outbound устарел в 1.11, там вместо него action reject
+  if (rule.outbound === blockTarget && !isBefore(version, "1.11")) {
+    result.action = "reject";
+  } else {
+    result.outbound = rule.outbound;
+  }
+
+  return result;
+}
+
+/**
+ * Возможности, которых нет в выбранной версии sing-box
+ * Пустой список — конфиг можно собрать
+ */
+export function findUnsupportedFeatures(options: BuildOptions): string[] {
+  const { outbounds, endpoints = [], dnsPreset, custom = {}, version = defaultSingboxVersion } = options;
+  const problems: string[] = [];
+
+  if (isBefore(version, "1.13")) {
+    for (const outbound of outbounds) {
+      const tls = outbound.tls as
+        | { certificate_public_key_sha256?: string[]; ech?: { query_server_name?: string } }
+        | undefined;
+      if (tls?.certificate_public_key_sha256) {
+        problems.push(`${outbound.tag}: certificate_public_key_sha256 появился в sing-box 1.13`);
+      }
+      if (tls?.ech?.query_server_name) {
+        problems.push(`${outbound.tag}: ECH query_server_name появился в sing-box 1.13`);
+      }
+    }
+  }
+
+  if (isBefore(version, "1.12")) {
+    for (const outbound of outbounds) {
+      const tls = outbound.tls as { fragment?: boolean; record_fragment?: boolean } | undefined;
+      if (tls?.fragment || tls?.record_fragment) {
+        problems.push(`${outbound.tag}: TLS fragment появился в sing-box 1.12`);
+      }
+    }
+
+    for (const endpoint of endpoints) {
+      if (endpoint.type === "awg") {
+        problems.push(`${endpoint.tag}: AmneziaWG endpoint есть только в сборках sing-box 1.12+ с поддержкой AWG`);
+      }
+    }
+
+    const dns = dnsPreset === "custom" ? custom.dns : undefined;
+    for (const server of dns?.servers ?? []) {
+      if ("type" in server && !["local", "udp", ...LEGACY_DNS_SCHEMES].includes(server.type)) {
+        problems.push(`dns: сервер "${server.tag}" типа ${server.type} нельзя записать через address до sing-box 1.12`);
+      }
+    }
+    for (const key of Object.keys(dns ?? {})) {
+      if (!LEGACY_DNS_KEYS.includes(key)) {
+        problems.push(`dns: ключ "${key}" не поддерживается до sing-box 1.12`);
+      }
+    }
+  }
+
+  if (isBefore(version, "1.11")) {
+    for (const endpoint of endpoints) {
+      if (endpoint.type !== "wireguard") continue;
+      // У WireGuard outbound в 1.10 нет этих полей
+      if (endpoint.listen_port !== undefined) {
+        problems.push(`${endpoint.tag}: listen_port для WireGuard появился в sing-box 1.11 (endpoints)`);
+      }
+      if (endpoint.peers.some((peer) => peer.persistent_keepalive_interval !== undefined)) {
+        problems.push(`${endpoint.tag}: persistent keepalive для WireGuard появился в sing-box 1.11 (endpoints), уберите PersistentKeepalive`);
+      }
+    }
+
+    const rules = (custom.route?.rules as Record<string, unknown>[] | undefined) ?? [];
+    if (rules.some((rule) => "action" in rule)) {
+      problems.push("route: правила с action (rule actions) появились в sing-box 1.11");
+    }
+
+    const dns = (dnsPreset === "custom" ? custom.dns : undefined) as Record<string, unknown> | undefined;
+    const dnsRules = (dns?.rules as Record<string, unknown>[] | undefined) ?? [];
+    if (dnsRules.some((rule) => "action" in rule)) {
+      problems.push("dns: правила с action (rule actions) появились в sing-box 1.11");
+    }
+    if (dns?.cache_capacity !== undefined) {
+      problems.push("dns: cache_capacity появился в sing-box 1.11");
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Собирает конфиг для выбранной версии sing-box
+ * Бросает Error со списком причин, если версия не поддерживает что-то из импорта
+ */
 export function buildConfig(options: BuildOptions): SingBoxConfig {
-  const { outbounds, endpoints = [], dnsPreset, inboundPreset } = options;
+  const { outbounds, endpoints = [], groups = [], dnsPreset, inboundPreset, custom = {}, rules = [] } = options;
+  const version = options.version ?? defaultSingboxVersion;
+
+  const problems = findUnsupportedFeatures(options);
+  if (problems.length > 0) {
+    throw new Error(problems.join("\n"));
+  }
+
+  // "custom" без импортированного блока откатывается к пресету по умолчанию
+  const dns =
+    dnsPreset === "custom"
+      ? custom.dns ?? dnsPresets[defaultDnsPreset].config
+      : dnsPresets[dnsPreset].config;
+  const inbounds =
+    inboundPreset === "custom"
+      ? custom.inbounds ?? inboundPresets[defaultInboundPreset].config
+      : inboundPresets[inboundPreset].config;
 
   // Получаем теги всех outbounds + endpoints (теги endpoints используются напрямую)
   const allTags = [
@@ -99,12 +469,15 @@ export function buildConfig(options: BuildOptions): SingBoxConfig {
     ...endpoints.map((ep) => ep.tag),
   ];
 
+  // Импортированные группы (selector/urltest) доступны в proxy селекторе первыми
+  const groupTags = groups.map((g) => g.tag);
+
   // Создаём системные outbounds
   const systemOutbounds: Outbound[] = [
     {
       type: "selector",
       tag: "proxy",
-      outbounds: allTags.length > 0 ? ["auto", ...allTags] : ["direct"],
+      outbounds: allTags.length > 0 ? ["auto", ...groupTags, ...allTags] : ["direct"],
       default: allTags.length > 0 ? "auto" : "direct",
     },
     ...(allTags.length > 0
@@ -125,40 +498,65 @@ export function buildConfig(options: BuildOptions): SingBoxConfig {
     },
   ];
 
+  // До 1.11 endpoints нет: WireGuard становится outbound (AWG отсеян выше)
+  const hasEndpoints = !isBefore(version, "1.11");
+  const wireguardOutbounds = hasEndpoints
+    ? []
+    : endpoints.flatMap((ep) => (ep.type === "wireguard" ? [toWireguardOutbound(ep)] : []));
+
+  const baseRoute = (custom.route as SingBoxConfig["route"]) ?? defaultRoute;
+
+  // Правила без значений совпали бы со всем трафиком
+  const userRules = rules
+    .filter((rule) => rule.values.some((value) => value.trim()))
+    .map((rule) => toRouteRule(rule, version));
+
+  // Доменные правила работают только со sniffing: до 1.11 он включается
+  // на inbounds, начиная с 1.11 — action sniff перед правилами
+  const needsSniff = rules.some((rule) => rule.field.startsWith("domain") && rule.values.some((v) => v.trim()));
+  const sniffInInbounds = needsSniff && isBefore(version, "1.11");
+  const sniffRules: RouteRuleConfig[] = needsSniff && !sniffInInbounds ? [{ action: "sniff" }] : [];
+
+  const route: SingBoxConfig["route"] = userRules.length > 0
+    ? { ...baseRoute, rules: [...sniffRules, ...userRules, ...(baseRoute.rules ?? [])] }
+    : baseRoute;
+
+  // До 1.11 block — отдельный outbound
+  const customOutbounds = custom.outbounds ?? [];
+  const needsBlockOutbound =
+    isBefore(version, "1.11") &&
+    rules.some((rule) => rule.outbound === blockTarget) &&
+    !customOutbounds.some((o) => o.tag === blockTarget);
+  const blockOutbounds: Outbound[] = needsBlockOutbound ? [{ type: "block", tag: blockTarget }] : [];
+
   const config: SingBoxConfig = {
-    log: {
-      level: "info",
-      timestamp: true,
-    },
-    experimental: {
-      cache_file: {
-        enabled: true,
-        path: "cache.db",
-      },
-      clash_api: {
-        external_controller: "127.0.0.1:9090",
-        external_ui: "ui",
-        secret: "",
-      },
-    },
-    dns: dnsPresets[dnsPreset].config,
-    inbounds: inboundPresets[inboundPreset].config,
-    outbounds: [...outbounds, ...systemOutbounds],
-    route: {
-      default_domain_resolver: "local",
-      auto_detect_interface: true,
-      final: "proxy",
-      rules: [
-        {
-          ip_is_private: true,
-          outbound: "direct",
-        },
-      ],
-    },
+    log: (custom.log as SingBoxConfig["log"]) ?? defaultLog,
+    experimental: (custom.experimental as SingBoxConfig["experimental"]) ?? defaultExperimental,
+    dns: isBefore(version, "1.12") ? toLegacyDns(dns) : dns,
+    inbounds: sniffInInbounds ? inbounds.map((inbound) => ({ ...inbound, sniff: true })) : inbounds,
+    outbounds: [
+      ...outbounds,
+      ...wireguardOutbounds,
+      ...groups,
+      ...systemOutbounds,
+      ...customOutbounds,
+      ...blockOutbounds,
+    ],
+    // default_domain_resolver появился в 1.12, до него — правило outbound: any в dns
+    route: isBefore(version, "1.12")
+      ? Object.fromEntries(
+          Object.entries(route).filter(([key]) => key !== "default_domain_resolver"),
+        ) as SingBoxConfig["route"]
+      : route,
   };
 
+  // Прочие секции импортированного конфига сохраняются как есть
+  if (custom.extra) {
+    Object.assign(config, custom.extra);
+  }
+
   // Добавляем endpoints если есть
-  if (endpoints.length > 0) {
+  if (hasEndpoints && endpoints.length > 0) {
     config.endpoints = endpoints;
   }
 
@@ -0,0 +1,80 @@
+/**
+ * AmneziaWG / WireGuard .conf exporter
+ * Reverse of parseAwgConfig: writes a sing-box endpoint back as a .conf file
+ * that the AmneziaWG (or stock WireGuard) app can import
+ */
+
+import type { EndpointConfig } from "@/lib/builder";
+
+// AWG 2.0 tag: <b 0x...>, <r 16>, <c>, <t>, ...
+const INIT_PACKET_TAG = /^<[a-z]{1,2}( [^<>]*)?>$/;
+
+/**
+ * Strip the <...> that parseAwgConfig adds around a bare I1-I5 value
+ * Tags like "<b 0xc700><r 16>" are already in .conf form and kept as is
+ */
+function unwrapInitPacket(value: string): string {
+  if (/^<[^<>]*>$/.test(value) && !INIT_PACKET_TAG.test(value)) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
+
+/**
+ * Format Endpoint = host:port, IPv6 hosts are bracketed
+ */
+function formatEndpoint(address: string, port: number): string {
+  return address.includes(":") ? `[${address}]:${port}` : `${address}:${port}`;
+}
+
+/**
+ * Serialize an AWG or WireGuard endpoint as a .conf file
+ */
+export function endpointToConf(endpoint: EndpointConfig): string {
+  const lines: string[] = ["[Interface]"];
+  const add = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== "") {
+      lines.push(`${key} = ${value}`);
+    }
+  };
+
+  add("PrivateKey", endpoint.private_key);
+  add("Address", endpoint.address.join(", "));
+  add("MTU", endpoint.mtu);
+  add("ListenPort", endpoint.listen_port);
+
+  if (endpoint.type === "awg") {
+    add("Jc", endpoint.jc);
+    add("Jmin", endpoint.jmin);
+    add("Jmax", endpoint.jmax);
+    add("S1", endpoint.s1);
+    add("S2", endpoint.s2);
+    add("S3", endpoint.s3);
+    add("S4", endpoint.s4);
+    add("H1", endpoint.h1);
+    add("H2", endpoint.h2);
+    add("H3", endpoint.h3);
+    add("H4", endpoint.h4);
+    add("I1", endpoint.i1 && unwrapInitPacket(endpoint.i1));
+    add("I2", endpoint.i2 && unwrapInitPacket(endpoint.i2));
+    add("I3", endpoint.i3 && unwrapInitPacket(endpoint.i3));
+    add("I4", endpoint.i4 && unwrapInitPacket(endpoint.i4));
+    add("I5", endpoint.i5 && unwrapInitPacket(endpoint.i5));
+  }
+
+  // AWG and WireGuard name the preshared key differently
+  const peers = endpoint.type === "awg"
+    ? endpoint.peers
+    : endpoint.peers.map(({ pre_shared_key, ...peer }) => ({ ...peer, preshared_key: pre_shared_key }));
+
+  for (const peer of peers) {
+    lines.push("", "[Peer]");
+    add("PublicKey", peer.public_key);
+    add("PresharedKey", peer.preshared_key);
+    add("AllowedIPs", peer.allowed_ips.join(", "));
+    add("Endpoint", formatEndpoint(peer.address, peer.port));
+    add("PersistentKeepalive", peer.persistent_keepalive_interval);
+  }
+
+  return lines.join("\n") + "\n";
+}
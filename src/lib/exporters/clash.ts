@@ -0,0 +1,589 @@
+/**
+ * Clash Meta (Mihomo) YAML exporter
+ * Converts a built sing-box config to proxies, proxy-groups, dns and rules
+ *
+ * Fields Clash Meta cannot express (TLS fragment, TLS versions, public key
+ * pinning, QUIC transport, extra AWG parameters, ...) are dropped and
+ * reported as warnings; proxies that cannot work without them are skipped.
+ */
+
+import { stringify as stringifyYaml } from "yaml";
+import type {
+  TlsConfig,
+  Transport,
+  MultiplexConfig,
+  VlessOutbound,
+  VmessOutbound,
+  TrojanOutbound,
+  ShadowsocksOutbound,
+  Hysteria2Outbound,
+  TuicOutbound,
+  SocksOutbound,
+  HttpOutbound,
+} from "@/lib/parsers/types";
+import type { Outbound, SingBoxConfig, AwgEndpointConfig, WireguardEndpointConfig } from "@/lib/builder";
+
+type ClashProxy = Record<string, unknown>;
+
+export interface ClashExportResult {
+  yaml: string;
+  warnings: string[];
+}
+
+// Proxy outbound types with a Clash Meta equivalent
+const PROXY_TYPES = ["vless", "vmess", "trojan", "shadowsocks", "hysteria2", "tuic", "socks", "http"];
+
+// Private ranges for sing-box's ip_is_private rule
+const PRIVATE_CIDRS = ["10.0.0.0/8", "172.16.0.0/12", "192.168.0.0/16", "127.0.0.0/8", "169.254.0.0/16", "fc00::/7", "fe80::/10"];
+
+// sing-box route rule fields, their Clash rule types and the group sing-box
+// ORs them in (fields from different groups are ANDed)
+const RULE_TYPES: Record<string, { type: string; group: string }> = {
+  domain: { type: "DOMAIN", group: "domain" },
+  domain_suffix: { type: "DOMAIN-SUFFIX", group: "domain" },
+  domain_keyword: { type: "DOMAIN-KEYWORD", group: "domain" },
+  ip_cidr: { type: "IP-CIDR", group: "ip" },
+  port: { type: "DST-PORT", group: "port" },
+  port_range: { type: "DST-PORT", group: "port" },
+  network: { type: "NETWORK", group: "network" },
+};
+
+/**
+ * Convert a sing-box duration ("30s", "5m", "1h") to seconds
+ */
+function durationToSeconds(value: string | undefined, fallback: number): number {
+  const match = value?.match(/^(\d+)(ms|s|m|h)$/);
+  if (!match) return fallback;
+
+  const amount = parseInt(match[1], 10);
+  switch (match[2]) {
+    case "ms":
+      return Math.max(1, Math.round(amount / 1000));
+    case "m":
+      return amount * 60;
+    case "h":
+      return amount * 3600;
+    default:
+      return amount;
+  }
+}
+
+/**
+ * Add TLS fields, reporting the ones Clash Meta has no key for
+ */
+function applyTls(proxy: ClashProxy, tls: TlsConfig | undefined, sniKey: string, warn: (msg: string) => void): void {
+  if (!tls?.enabled) return;
+
+  if (tls.server_name) proxy[sniKey] = tls.server_name;
+  if (tls.utls?.enabled) proxy["client-fingerprint"] = tls.utls.fingerprint;
+  if (tls.alpn && tls.alpn.length > 0) proxy.alpn = tls.alpn;
+  if (tls.insecure) proxy["skip-cert-verify"] = true;
+
+  if (tls.reality?.enabled) {
+    proxy["reality-opts"] = {
+      "public-key": tls.reality.public_key,
+      ...(tls.reality.short_id && { "short-id": tls.reality.short_id }),
+    };
+  }
+
+  if (tls.ech?.enabled) {
+    const config = tls.ech.config?.filter((line) => !line.startsWith("-----")).join("");
+    proxy["ech-opts"] = { enable: true, ...(config && { config }) };
+  }
+
+  if (tls.min_version || tls.max_version) warn("tls.min_version/max_version");
+  if (tls.fragment || tls.record_fragment) warn("tls.fragment/record_fragment");
+  if (tls.certificate_public_key_sha256) warn("tls.certificate_public_key_sha256");
+}
+
+/**
+ * Add network/transport fields
+ * Throws for transports Clash Meta cannot carry
+ */
+function applyTransport(proxy: ClashProxy, transport: Transport | undefined, tls: TlsConfig | undefined): void {
+  if (!transport) return;
+
+  switch (transport.type) {
+    case "tcp":
+      return;
+
+    case "ws":
+      proxy.network = "ws";
+      proxy["ws-opts"] = {
+        ...(transport.path && { path: transport.path }),
+        ...(transport.headers && { headers: transport.headers }),
+        ...(transport.max_early_data && { "max-early-data": transport.max_early_data }),
+        ...(transport.early_data_header_name && { "early-data-header-name": transport.early_data_header_name }),
+      };
+      return;
+
+    case "httpupgrade":
+      proxy.network = "ws";
+      proxy["ws-opts"] = {
+        ...(transport.path && { path: transport.path }),
+        ...(transport.host && { headers: { Host: transport.host } }),
+        "v2ray-http-upgrade": true,
+      };
+      return;
+
+    case "grpc":
+      proxy.network = "grpc";
+      proxy["grpc-opts"] = {
+        ...(transport.service_name && { "grpc-service-name": transport.service_name }),
+      };
+      return;
+
+    case "http":
+      // HTTP/2 with TLS, otherwise TCP with HTTP header obfuscation
+      if (tls?.enabled) {
+        proxy.network = "h2";
+        proxy["h2-opts"] = {
+          ...(transport.host && { host: transport.host }),
+          ...(transport.path && { path: transport.path }),
+        };
+      } else {
+        proxy.network = "http";
+        proxy["http-opts"] = {
+          ...(transport.method && { method: transport.method }),
+          ...(transport.path && { path: [transport.path] }),
+          ...(transport.host && { headers: { Host: transport.host } }),
+        };
+      }
+      return;
+
+    default:
+      throw new Error(`${transport.type} transport is not supported by Clash Meta`);
+  }
+}
+
+/**
+ * Add smux fields
+ */
+function applyMultiplex(proxy: ClashProxy, multiplex: MultiplexConfig | undefined): void {
+  if (!multiplex?.enabled) return;
+
+  proxy.smux = {
+    enabled: true,
+    ...(multiplex.protocol && { protocol: multiplex.protocol }),
+    ...(multiplex.max_connections && { "max-connections": multiplex.max_connections }),
+    ...(multiplex.min_streams && { "min-streams": multiplex.min_streams }),
+    ...(multiplex.max_streams && { "max-streams": multiplex.max_streams }),
+    ...(multiplex.padding && { padding: true }),
+    ...(multiplex.brutal?.enabled && {
+      "brutal-opts": {
+        enabled: true,
+        up: multiplex.brutal.up_mbps,
+        down: multiplex.brutal.down_mbps,
+      },
+    }),
+  };
+}
+
+/**
+ * Convert sing-box shadowsocks plugin options ("k=v;flag") to plugin-opts
+ */
+function convertPlugin(outbound: ShadowsocksOutbound, proxy: ClashProxy): void {
+  if (!outbound.plugin) return;
+
+  const opts: Record<string, string | boolean> = {};
+  for (const part of (outbound.plugin_opts || "").split(";").filter(Boolean)) {
+    const [key, value] = part.split("=");
+    opts[key] = value ?? true;
+  }
+
+  if (outbound.plugin === "obfs-local") {
+    proxy.plugin = "obfs";
+    proxy["plugin-opts"] = {
+      mode: opts.obfs || "http",
+      ...(opts["obfs-host"] && { host: opts["obfs-host"] }),
+    };
+  } else {
+    proxy.plugin = outbound.plugin;
+    proxy["plugin-opts"] = {
+      mode: opts.mode || "websocket",
+      ...(opts.tls && { tls: true }),
+      ...(opts.host && { host: opts.host }),
+      ...(opts.path && { path: opts.path }),
+    };
+  }
+}
+
+/**
+ * Convert one sing-box proxy outbound
+ */
+function convertOutbound(outbound: Outbound, warn: (msg: string) => void): ClashProxy {
+  // type is overwritten per protocol, keeping it second in the YAML
+  const base: ClashProxy = {
+    name: outbound.tag,
+    type: outbound.type,
+    server: outbound.server,
+    port: outbound.server_port,
+    udp: true,
+  };
+
+  switch (outbound.type) {
+    case "vless": {
+      const o = outbound as unknown as VlessOutbound;
+      const proxy: ClashProxy = { ...base, type: "vless", uuid: o.uuid };
+      if (o.flow) proxy.flow = o.flow;
+      if (o.tls?.enabled) proxy.tls = true;
+      applyTls(proxy, o.tls, "servername", warn);
+      applyTransport(proxy, o.transport, o.tls);
+      if (o.packet_encoding) proxy["packet-encoding"] = o.packet_encoding;
+      applyMultiplex(proxy, o.multiplex);
+      return proxy;
+    }
+
+    case "vmess": {
+      const o = outbound as unknown as VmessOutbound;
+      const proxy: ClashProxy = {
+        ...base,
+        type: "vmess",
+        uuid: o.uuid,
+        alterId: o.alter_id ?? 0,
+        cipher: o.security || "auto",
+      };
+      if (o.tls?.enabled) proxy.tls = true;
+      applyTls(proxy, o.tls, "servername", warn);
+      applyTransport(proxy, o.transport, o.tls);
+      if (o.packet_encoding) proxy["packet-encoding"] = o.packet_encoding;
+      applyMultiplex(proxy, o.multiplex);
+      return proxy;
+    }
+
+    case "trojan": {
+      const o = outbound as unknown as TrojanOutbound;
+      if (!o.tls?.enabled) {
+        throw new Error("Trojan without TLS is not supported by Clash Meta");
+      }
+      const proxy: ClashProxy = { ...base, type: "trojan", password: o.password };
+      applyTls(proxy, o.tls, "sni", warn);
+      applyTransport(proxy, o.transport, o.tls);
+      applyMultiplex(proxy, o.multiplex);
+      return proxy;
+    }
+
+    case "shadowsocks": {
+      const o = outbound as unknown as ShadowsocksOutbound;
+      const proxy: ClashProxy = { ...base, type: "ss", cipher: o.method, password: o.password };
+      convertPlugin(o, proxy);
+      applyMultiplex(proxy, o.multiplex);
+      return proxy;
+    }
+
+    case "hysteria2": {
+      const o = outbound as unknown as Hysteria2Outbound;
+      const proxy: ClashProxy = { ...base, type: "hysteria2" };
+      if (o.password) proxy.password = o.password;
+      if (o.server_ports) proxy.ports = o.server_ports.map((range) => range.replace(":", "-")).join(",");
+      if (o.obfs) {
+        proxy.obfs = o.obfs.type;
+        proxy["obfs-password"] = o.obfs.password;
+      }
+      if (o.up_mbps) proxy.up = `${o.up_mbps} Mbps`;
+      if (o.down_mbps) proxy.down = `${o.down_mbps} Mbps`;
+      applyTls(proxy, o.tls, "sni", warn);
+      return proxy;
+    }
+
+    case "tuic": {
+      const o = outbound as unknown as TuicOutbound;
+      const proxy: ClashProxy = { ...base, type: "tuic", uuid: o.uuid };
+      if (o.password) proxy.password = o.password;
+      if (o.congestion_control) proxy["congestion-controller"] = o.congestion_control;
+      if (o.udp_relay_mode) proxy["udp-relay-mode"] = o.udp_relay_mode;
+      if (o.zero_rtt_handshake) proxy["reduce-rtt"] = true;
+      if (o.heartbeat) proxy["heartbeat-interval"] = durationToSeconds(o.heartbeat, 10) * 1000;
+      applyTls(proxy, o.tls, "sni", warn);
+      return proxy;
+    }
+
+    case "socks": {
+      const o = outbound as unknown as SocksOutbound;
+      if (o.version && o.version !== "5") {
+        throw new Error(`SOCKS${o.version} is not supported by Clash Meta`);
+      }
+      const proxy: ClashProxy = { ...base, type: "socks5" };
+      if (o.username) proxy.username = o.username;
+      if (o.password) proxy.password = o.password;
+      return proxy;
+    }
+
+    default: {
+      const o = outbound as unknown as HttpOutbound;
+      const proxy: ClashProxy = { ...base, type: "http" };
+      delete proxy.udp;
+      if (o.username) proxy.username = o.username;
+      if (o.password) proxy.password = o.password;
+      if (o.tls?.enabled) proxy.tls = true;
+      applyTls(proxy, o.tls, "sni", warn);
+      return proxy;
+    }
+  }
+}
+
+/**
+ * Convert an AWG/WireGuard endpoint to a Clash wireguard proxy
+ */
+function convertEndpoint(
+  endpoint: AwgEndpointConfig | WireguardEndpointConfig,
+  warn: (msg: string) => void,
+): ClashProxy {
+  const peer = endpoint.peers[0];
+  if (!peer) {
+    throw new Error("Endpoint has no peers");
+  }
+  if (endpoint.peers.length > 1) {
+    warn("peers after the first one");
+  }
+
+  const proxy: ClashProxy = {
+    name: endpoint.tag,
+    type: "wireguard",
+    server: peer.address,
+    port: peer.port,
+    udp: true,
+  };
+
+  // Clash takes bare addresses
+  const ipv4 = endpoint.address.find((a) => !a.includes(":"));
+  const ipv6 = endpoint.address.find((a) => a.includes(":"));
+  if (ipv4) proxy.ip = ipv4.split("/")[0];
+  if (ipv6) proxy.ipv6 = ipv6.split("/")[0];
+
+  proxy["private-key"] = endpoint.private_key;
+  proxy["public-key"] = peer.public_key;
+  const preSharedKey = endpoint.type === "awg" ? endpoint.peers[0].preshared_key : endpoint.peers[0].pre_shared_key;
+  if (preSharedKey) proxy["pre-shared-key"] = preSharedKey;
+  proxy["allowed-ips"] = peer.allowed_ips;
+  if (peer.persistent_keepalive_interval) proxy["persistent-keepalive"] = peer.persistent_keepalive_interval;
+  if (endpoint.mtu) proxy.mtu = endpoint.mtu;
+  if ("reserved" in peer && peer.reserved) proxy.reserved = peer.reserved;
+
+  if (endpoint.type === "awg") {
+    const awg = endpoint;
+    const option: Record<string, number> = {
+      ...(awg.jc !== undefined && { jc: awg.jc }),
+      ...(awg.jmin !== undefined && { jmin: awg.jmin }),
+      ...(awg.jmax !== undefined && { jmax: awg.jmax }),
+      ...(awg.s1 !== undefined && { s1: awg.s1 }),
+      ...(awg.s2 !== undefined && { s2: awg.s2 }),
+    };
+    // Clash takes a single number per header, AWG 2.0 "100-200" ranges don't fit
+    const headers = { h1: awg.h1, h2: awg.h2, h3: awg.h3, h4: awg.h4 };
+    for (const [key, value] of Object.entries(headers)) {
+      if (!value) continue;
+      if (/^\d+$/.test(value)) {
+        option[key] = Number(value);
+      } else {
+        warn(`AWG ${key.toUpperCase()} range "${value}"`);
+      }
+    }
+    proxy["amnezia-wg-option"] = option;
+    if (awg.s3 !== undefined || awg.s4 !== undefined) warn("AWG S3/S4");
+    if (awg.i1 || awg.i2 || awg.i3 || awg.i4 || awg.i5) warn("AWG 2.0 init packets (I1-I5)");
+  }
+
+  return proxy;
+}
+
+/**
+ * Convert sing-box DNS servers to Clash nameserver URLs
+ */
+function convertDns(dns: SingBoxConfig["dns"], warnings: string[]): Record<string, unknown> {
+  const nameservers: string[] = [];
+  let hasLocal = false;
+
+  // final server goes first
+  const servers = [...dns.servers].sort((a, b) => Number(b.tag === dns.final) - Number(a.tag === dns.final));
+  for (const server of servers) {
+    const detour = server.detour ? `#${server.detour}` : "";
+
+    // Legacy address strings ("tls://8.8.8.8") are already Clash URLs
+    if (!("type" in server)) {
+      if (server.address === "local") {
+        hasLocal = true;
+      } else {
+        nameservers.push(`${server.address}${detour}`);
+      }
+      continue;
+    }
+
+    const port = server.server_port ? `:${server.server_port}` : "";
+
+    switch (server.type) {
+      case "local":
+        hasLocal = true;
+        break;
+      case "udp":
+        nameservers.push(`${server.server}${port}${detour}`);
+        break;
+      case "tcp":
+      case "tls":
+      case "quic":
+        nameservers.push(`${server.type}://${server.server}${port}${detour}`);
+        break;
+      case "https":
+        nameservers.push(`https://${server.server}${port}/dns-query${detour}`);
+        break;
+      default:
+        warnings.push(`dns: server "${server.tag}" of type ${server.type} is not supported by Clash Meta`);
+    }
+  }
+
+  return {
+    enable: true,
+    ipv6: dns.strategy !== "ipv4_only",
+    ...(hasLocal && { "default-nameserver": ["system"] }),
+    nameserver: nameservers,
+  };
+}
+
+/**
+ * Convert a built sing-box config to Clash Meta YAML
+ */
+export function singboxToClash(config: SingBoxConfig): ClashExportResult {
+  const warnings: string[] = [];
+  const proxies: ClashProxy[] = [];
+  const exported = new Set<string>();
+
+  // Targets every rule/group member can point to
+  const blockTags = new Set(config.outbounds.filter((o) => o.type === "block").map((o) => o.tag));
+  const directTags = new Set(config.outbounds.filter((o) => o.type === "direct").map((o) => o.tag));
+  const mapTarget = (tag: string): string | null => {
+    if (directTags.has(tag)) return "DIRECT";
+    if (blockTags.has(tag)) return "REJECT";
+    return exported.has(tag) ? tag : null;
+  };
+
+  // Proxies
+  for (const outbound of config.outbounds) {
+    if (!PROXY_TYPES.includes(outbound.type)) continue;
+
+    const dropped: string[] = [];
+    try {
+      proxies.push(convertOutbound(outbound, (field) => dropped.push(field)));
+      exported.add(outbound.tag);
+    } catch (e) {
+      warnings.push(`${outbound.tag}: ${(e as Error).message}, skipped`);
+      continue;
+    }
+    if (dropped.length > 0) {
+      warnings.push(`${outbound.tag}: ${dropped.join(", ")} not supported by Clash Meta, dropped`);
+    }
+  }
+
+  for (const endpoint of config.endpoints ?? []) {
+    const dropped: string[] = [];
+    try {
+      proxies.push(convertEndpoint(endpoint, (field) => dropped.push(field)));
+      exported.add(endpoint.tag);
+    } catch (e) {
+      warnings.push(`${endpoint.tag}: ${(e as Error).message}, skipped`);
+      continue;
+    }
+    if (dropped.length > 0) {
+      warnings.push(`${endpoint.tag}: ${dropped.join(", ")} not supported by Clash Meta, dropped`);
+    }
+  }
+
+  // Groups: names are registered first so groups can reference each other
+  const groupOutbounds = config.outbounds.filter((o) => o.type === "selector" || o.type === "urltest");
+  for (const group of groupOutbounds) {
+    exported.add(group.tag);
+  }
+
+  const proxyGroups = groupOutbounds.map((group) => {
+    const members = ((group.outbounds as string[] | undefined) ?? [])
+      .map(mapTarget)
+      .filter((tag): tag is string => tag !== null && tag !== group.tag);
+
+    if (group.type === "selector") {
+      return { name: group.tag, type: "select", proxies: members.length > 0 ? members : ["DIRECT"] };
+    }
+
+    return {
+      name: group.tag,
+      type: "url-test",
+      proxies: members.length > 0 ? members : ["DIRECT"],
+      url: (group.url as string | undefined) || "https://www.gstatic.com/generate_204",
+      interval: durationToSeconds(group.interval as string | undefined, 300),
+      ...(group.tolerance !== undefined && { tolerance: group.tolerance }),
+    };
+  });
+
+  // Rules
+  const rules: string[] = [];
+  const route = config.route;
+  for (const rule of route.rules ?? []) {
+    // Clash sniffs on its own
+    if (rule.action === "sniff") continue;
+
+    const target = rule.action === "reject" ? "REJECT" : rule.outbound && mapTarget(rule.outbound);
+    if (!target) {
+      warnings.push(`route: rule to "${rule.outbound ?? rule.action}" has no Clash target, skipped`);
+      continue;
+    }
+
+    const fields = Object.keys(rule).filter((key) => key !== "outbound" && key !== "action");
+    if (fields.length === 1 && fields[0] === "ip_is_private") {
+      rules.push(...PRIVATE_CIDRS.map((cidr) => `IP-CIDR${cidr.includes(":") ? "6" : ""},${cidr},${target},no-resolve`));
+      continue;
+    }
+
+    // Clash rules match one condition; fields sing-box ANDs would need AND(...)
+    const groups = new Set(fields.map((field) => RULE_TYPES[field]?.group ?? field));
+    if (fields.length === 0 || fields.some((field) => !RULE_TYPES[field]) || groups.size > 1) {
+      warnings.push(`route: rule with ${fields.join(" + ")} is not supported in export, skipped`);
+      continue;
+    }
+
+    for (const field of fields) {
+      const { type } = RULE_TYPES[field];
+      const value = rule[field];
+      for (const item of Array.isArray(value) ? value : [value]) {
+        const isIpv6 = String(item).includes(":");
+        const ruleType = type === "IP-CIDR" && isIpv6 ? "IP-CIDR6" : type;
+        // Clash writes port ranges as 1000-2000 and needs a prefix on every CIDR
+        let ruleValue = field === "port_range" ? String(item).replace(":", "-") : item;
+        if (type === "IP-CIDR" && !String(item).includes("/")) {
+          ruleValue = `${item}/${isIpv6 ? 128 : 32}`;
+        }
+        rules.push(`${ruleType},${ruleValue},${target}`);
+      }
+    }
+  }
+  rules.push(`MATCH,${mapTarget(route.final) ?? "DIRECT"}`);
+
+  // Inbounds
+  const clash: Record<string, unknown> = {};
+  for (const inbound of config.inbounds) {
+    if (inbound.type === "mixed") {
+      clash["mixed-port"] = inbound.listen_port ?? 7890;
+      if (inbound.listen === "0.0.0.0" || inbound.listen === "::") {
+        clash["allow-lan"] = true;
+      }
+    } else if (inbound.type === "tun") {
+      clash.tun = {
+        enable: true,
+        stack: inbound.stack || "system",
+        "auto-route": true,
+        "auto-detect-interface": true,
+      };
+    } else {
+      warnings.push(`inbounds: ${inbound.type} inbound "${inbound.tag}" is not supported in export, skipped`);
+    }
+  }
+
+  clash.mode = "rule";
+  clash["log-level"] = "info";
+  clash.dns = convertDns(config.dns, warnings);
+  clash.proxies = proxies;
+  clash["proxy-groups"] = proxyGroups;
+  clash.rules = rules;
+
+  return {
+    yaml: stringifyYaml(clash),
+    warnings,
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * XRay client JSON exporter
+ * Reverse of parseAmneziaConfig for VLESS outbounds: the output is a client
+ * config with a local SOCKS inbound, as AmneziaVPN and v2rayN use
+ *
+ * sing-box specifics map back as:
+ * - multiplex -> Mux.Cool (max_streams -> concurrency)
+ * - tls.fragment -> freedom outbound with fragment, used as dialerProxy
+ * Outbounds of other protocols are skipped with a warning.
+ */
+
+import type { VlessOutbound, TlsConfig, Transport } from "@/lib/parsers/types";
+import type { Outbound } from "@/lib/builder";
+
+type XRayObject = Record<string, unknown>;
+
+export interface XrayExportResult {
+  json: string;
+  warnings: string[];
+}
+
+// Local SOCKS inbound, same as AmneziaVPN's XRay container client
+const SOCKS_INBOUND = {
+  listen: "127.0.0.1",
+  port: 10808,
+  protocol: "socks",
+  settings: { udp: true },
+};
+
+// Freedom outbound that splits the TLS ClientHello
+const FRAGMENT_TAG = "fragment";
+const FRAGMENT_OUTBOUND = {
+  protocol: "freedom",
+  tag: FRAGMENT_TAG,
+  settings: {
+    fragment: { packets: "tlshello", length: "100-200", interval: "10-20" },
+  },
+};
+
+/**
+ * Build tlsSettings/realitySettings
+ */
+function buildSecurity(stream: XRayObject, tls: TlsConfig | undefined, warn: (msg: string) => void): void {
+  if (!tls?.enabled) {
+    stream.security = "none";
+    return;
+  }
+
+  if (tls.reality?.enabled) {
+    stream.security = "reality";
+    stream.realitySettings = {
+      ...(tls.server_name && { serverName: tls.server_name }),
+      fingerprint: tls.utls?.enabled ? tls.utls.fingerprint : "chrome",
+      publicKey: tls.reality.public_key,
+      shortId: tls.reality.short_id,
+    };
+    return;
+  }
+
+  const settings: XRayObject = {};
+  if (tls.server_name) settings.serverName = tls.server_name;
+  if (tls.utls?.enabled) settings.fingerprint = tls.utls.fingerprint;
+  if (tls.alpn && tls.alpn.length > 0) settings.alpn = tls.alpn;
+  if (tls.insecure) settings.allowInsecure = true;
+  if (tls.min_version) settings.minVersion = tls.min_version;
+  if (tls.max_version) settings.maxVersion = tls.max_version;
+  if (tls.certificate_public_key_sha256 && tls.certificate_public_key_sha256.length > 0) {
+    settings.pinnedPeerCertificatePublicKeySha256 = tls.certificate_public_key_sha256;
+  }
+
+  if (tls.ech?.enabled) {
+    if (tls.ech.config) {
+      settings.echConfigList = tls.ech.config.filter((line) => !line.startsWith("-----")).join("");
+    } else {
+      // XRay needs a DNS server to look the config up, sing-box doesn't say which
+      warn("tls.ech");
+    }
+  }
+
+  if (tls.record_fragment) warn("tls.record_fragment");
+
+  stream.security = "tls";
+  stream.tlsSettings = settings;
+}
+
+/**
+ * Build network and its settings block
+ * Throws for transports XRay no longer has
+ */
+function buildNetwork(stream: XRayObject, transport: Transport | undefined, tls: TlsConfig | undefined): void {
+  if (!transport) {
+    stream.network = "tcp";
+    return;
+  }
+
+  switch (transport.type) {
+    case "tcp":
+      stream.network = "tcp";
+      return;
+
+    case "ws":
+      stream.network = "ws";
+      stream.wsSettings = {
+        ...(transport.path && { path: transport.path }),
+        ...(transport.headers && { headers: transport.headers }),
+      };
+      return;
+
+    case "grpc":
+      stream.network = "grpc";
+      stream.grpcSettings = {
+        ...(transport.service_name && { serviceName: transport.service_name }),
+      };
+      return;
+
+    case "httpupgrade":
+      stream.network = "httpupgrade";
+      stream.httpupgradeSettings = {
+        ...(transport.path && { path: transport.path }),
+        ...(transport.host && { host: transport.host }),
+        ...(transport.headers && { headers: transport.headers }),
+      };
+      return;
+
+    case "http":
+      // HTTP/2 with TLS, otherwise tcp with HTTP header obfuscation
+      if (tls?.enabled) {
+        stream.network = "h2";
+        stream.httpSettings = {
+          ...(transport.path && { path: transport.path }),
+          ...(transport.host && { host: transport.host }),
+        };
+      } else {
+        stream.network = "tcp";
+        stream.tcpSettings = {
+          header: {
+            type: "http",
+            request: {
+              ...(transport.method && { method: transport.method }),
+              path: [transport.path || "/"],
+              headers: {
+                ...(transport.host && { Host: transport.host }),
+                ...transport.headers,
+              },
+            },
+          },
+        };
+      }
+      return;
+
+    default:
+      throw new Error(`${transport.type} transport is not supported by XRay`);
+  }
+}
+
+/**
+ * Convert a sing-box VLESS outbound to an XRay outbound
+ */
+function convertVless(outbound: VlessOutbound, warn: (msg: string) => void): XRayObject {
+  const stream: XRayObject = {};
+  buildNetwork(stream, outbound.transport, outbound.tls);
+  buildSecurity(stream, outbound.tls, warn);
+
+  if (outbound.tls?.fragment) {
+    stream.sockopt = { dialerProxy: FRAGMENT_TAG };
+  }
+
+  const xray: XRayObject = {
+    protocol: "vless",
+    tag: outbound.tag,
+    settings: {
+      vnext: [
+        {
+          address: outbound.server,
+          port: outbound.server_port,
+          users: [
+            {
+              id: outbound.uuid,
+              encryption: "none",
+              ...(outbound.flow && { flow: outbound.flow }),
+            },
+          ],
+        },
+      ],
+    },
+    streamSettings: stream,
+  };
+
+  if (outbound.multiplex?.enabled) {
+    xray.mux = {
+      enabled: true,
+      concurrency: outbound.multiplex.max_streams ?? 8,
+    };
+    if (outbound.multiplex.protocol || outbound.multiplex.padding || outbound.multiplex.brutal) {
+      warn("multiplex protocol/padding/brutal (Mux.Cool has no equivalent)");
+    }
+  }
+
+  return xray;
+}
+
+/**
+ * Build an XRay client config from the VLESS outbounds
+ * The first outbound is XRay's default route
+ */
+export function outboundsToXrayConfig(outbounds: Outbound[]): XrayExportResult {
+  const warnings: string[] = [];
+  const xrayOutbounds: XRayObject[] = [];
+  let needsFragment = false;
+
+  for (const outbound of outbounds) {
+    if (outbound.type !== "vless") {
+      warnings.push(`${outbound.tag}: ${outbound.type} is not exported to XRay, skipped`);
+      continue;
+    }
+
+    const vless = outbound as unknown as VlessOutbound;
+    const dropped: string[] = [];
+    try {
+      xrayOutbounds.push(convertVless(vless, (field) => dropped.push(field)));
+    } catch (e) {
+      warnings.push(`${outbound.tag}: ${(e as Error).message}, skipped`);
+      continue;
+    }
+
+    if (vless.tls?.fragment) needsFragment = true;
+    if (dropped.length > 0) {
+      warnings.push(`${outbound.tag}: ${dropped.join(", ")} not supported by XRay, dropped`);
+    }
+  }
+
+  const config = {
+    log: { loglevel: "error" },
+    inbounds: [SOCKS_INBOUND],
+    outbounds: [
+      ...xrayOutbounds,
+      ...(needsFragment ? [FRAGMENT_OUTBOUND] : []),
+      { protocol: "freedom", tag: "direct" },
+      { protocol: "blackhole", tag: "block" },
+    ],
+  };
+
+  return {
+    json: JSON.stringify(config, null, 2),
+    warnings,
+  };
+}
@@ -23,24 +23,46 @@
  *     }
  *   }]
  * }
+ *
+ * Supported protocols:
+ * - vless, vmess (settings.vnext)
+ * - trojan, shadowsocks, socks, http (settings.servers)
+ * - wireguard (becomes a sing-box endpoint)
+ * - freedom -> direct, blackhole -> block
+ *
+ * Outbound "mux" (Mux.Cool) has no sing-box equivalent: smux/yamux/h2mux
+ * don't talk to it, so it is dropped with a warning.
  */
 
 import type {
+  ProxyOutbound,
   VlessOutbound,
+  VmessOutbound,
+  TrojanOutbound,
+  ShadowsocksOutbound,
+  SocksOutbound,
+  HttpOutbound,
+  ServiceOutbound,
   TlsConfig,
   Transport,
   WsTransport,
   GrpcTransport,
   HttpTransport,
+  HttpUpgradeTransport,
   TlsFingerprint,
   AlpnProtocol,
 } from "./types";
+import type { WireguardEndpoint } from "./awg";
+import { buildEchConfig, parseHostPort, parseTlsVersion } from "./common";
+import { validateShadowsocksMethod } from "./shadowsocks";
 
 // XRay/V2Ray types
 interface XRayUser {
   id: string;
   encryption?: string;
   flow?: string;
+  alterId?: number;
+  security?: string;
 }
 
 interface XRayVnext {
@@ -49,6 +71,29 @@ interface XRayVnext {
   users: XRayUser[];
 }
 
+// socks/http account
+interface XRayAccount {
+  user?: string;
+  pass?: string;
+}
+
+// trojan/shadowsocks/socks/http server
+interface XRayServer {
+  address: string;
+  port: number;
+  password?: string;
+  method?: string;
+  users?: XRayAccount[];
+}
+
+interface XRayWireguardPeer {
+  publicKey: string;
+  preSharedKey?: string;
+  endpoint: string;
+  keepAlive?: number;
+  allowedIPs?: string[];
+}
+
 interface XRayRealitySettings {
   fingerprint?: string;
   publicKey?: string;
@@ -62,6 +107,15 @@ interface XRayTlsSettings {
   fingerprint?: string;
   alpn?: string[];
   allowInsecure?: boolean;
+  minVersion?: string;
+  maxVersion?: string;
+  echConfigList?: string;
+  pinnedPeerCertificatePublicKeySha256?: string[];
+}
+
+// Socket options; dialerProxy may point to a freedom outbound with fragment
+interface XRaySockopt {
+  dialerProxy?: string;
 }
 
 interface XRayWsSettings {
@@ -79,6 +133,24 @@ interface XRayHttpSettings {
   host?: string[];
 }
 
+interface XRayHttpUpgradeSettings {
+  path?: string;
+  host?: string;
+  headers?: Record<string, string>;
+}
+
+// tcp (raw) settings with optional HTTP header obfuscation
+interface XRayTcpSettings {
+  header?: {
+    type?: string;
+    request?: {
+      method?: string;
+      path?: string[];
+      headers?: Record<string, string | string[]>;
+    };
+  };
+}
+
 interface XRayStreamSettings {
   network?: string;
   security?: string;
@@ -87,13 +159,38 @@ interface XRayStreamSettings {
   wsSettings?: XRayWsSettings;
   grpcSettings?: XRayGrpcSettings;
   httpSettings?: XRayHttpSettings;
+  httpupgradeSettings?: XRayHttpUpgradeSettings;
+  tcpSettings?: XRayTcpSettings;
+  rawSettings?: XRayTcpSettings;
+  sockopt?: XRaySockopt;
+}
+
+// Mux.Cool settings
+interface XRayMuxSettings {
+  enabled?: boolean;
+  concurrency?: number;
+  xudpConcurrency?: number;
 }
 
 interface XRayOutbound {
   protocol: string;
   tag?: string;
+  mux?: XRayMuxSettings;
   settings?: {
     vnext?: XRayVnext[];
+    servers?: XRayServer[];
+    // wireguard
+    secretKey?: string;
+    address?: string[];
+    peers?: XRayWireguardPeer[];
+    mtu?: number;
+    reserved?: number[];
+    // freedom
+    fragment?: {
+      packets?: string;
+      length?: string;
+      interval?: string;
+    };
   };
   streamSettings?: XRayStreamSettings;
 }
@@ -106,8 +203,13 @@ interface XRayConfig {
 
 export interface AmneziaParseResult {
   success: boolean;
-  outbounds: VlessOutbound[];
+  outbounds: ProxyOutbound[];
+  endpoints: WireguardEndpoint[];
+  // freedom/blackhole outbounds, except the "direct" one buildConfig adds itself
+  serviceOutbounds: ServiceOutbound[];
   errors: string[];
+  // Non-fatal notes, e.g. outbounds expanded into several servers/users
+  warnings: string[];
 }
 
 /**
@@ -115,7 +217,10 @@ export interface AmneziaParseResult {
  */
 export function parseAmneziaConfig(jsonText: string): AmneziaParseResult {
   const errors: string[] = [];
-  const outbounds: VlessOutbound[] = [];
+  const warnings: string[] = [];
+  const outbounds: ProxyOutbound[] = [];
+  const endpoints: WireguardEndpoint[] = [];
+  const serviceOutbounds: ServiceOutbound[] = [];
 
   // Parse JSON
   let config: XRayConfig;
@@ -125,6 +230,9 @@ export function parseAmneziaConfig(jsonText: string): AmneziaParseResult {
     return {
       success: false,
       outbounds: [],
+      endpoints: [],
+      serviceOutbounds: [],
+      warnings: [],
       errors: [`Invalid JSON: ${(e as Error).message}`],
     };
   }
@@ -134,26 +242,70 @@ export function parseAmneziaConfig(jsonText: string): AmneziaParseResult {
     return {
       success: false,
       outbounds: [],
+      endpoints: [],
+      serviceOutbounds: [],
+      warnings: [],
       errors: ["No outbounds array found in config"],
     };
   }
 
+  // freedom outbounds that only fragment the TLS handshake of a proxy
+  // (streamSettings.sockopt.dialerProxy) become tls.fragment instead
+  const fragmentTags = new Set(
+    config.outbounds
+      .filter((o) => o?.protocol === "freedom" && o.tag && o.settings?.fragment)
+      .map((o) => o.tag),
+  );
+
   // Process each outbound
   let proxyCounter = 1;
   for (let i = 0; i < config.outbounds.length; i++) {
     const xrayOutbound = config.outbounds[i];
 
-    // Only process vless protocol for now
-    if (xrayOutbound.protocol !== "vless") {
-      errors.push(`Outbound ${i + 1}: protocol "${xrayOutbound.protocol}" not supported, skipping`);
-      continue;
-    }
-
     try {
-      const singboxOutbound = convertXRayToSingbox(xrayOutbound, proxyCounter);
-      if (singboxOutbound) {
-        outbounds.push(singboxOutbound);
-        proxyCounter++;
+      switch (xrayOutbound.protocol) {
+        case "freedom": {
+          const tag = xrayOutbound.tag || "direct";
+          if (tag !== "direct" && !fragmentTags.has(tag)) {
+            serviceOutbounds.push({ type: "direct", tag });
+          }
+          break;
+        }
+
+        case "blackhole":
+          serviceOutbounds.push({ type: "block", tag: xrayOutbound.tag || "block" });
+          break;
+
+        case "wireguard":
+          endpoints.push(convertWireguard(xrayOutbound, proxyCounter));
+          proxyCounter++;
+          break;
+
+        default: {
+          const converted = convertXRayToSingbox(xrayOutbound, proxyCounter);
+          outbounds.push(...converted);
+          proxyCounter++;
+
+          if (fragmentTags.has(xrayOutbound.streamSettings?.sockopt?.dialerProxy)) {
+            for (const outbound of converted) {
+              if ("tls" in outbound && outbound.tls) {
+                outbound.tls.fragment = true;
+              }
+            }
+          }
+
+          if (xrayOutbound.mux?.enabled) {
+            warnings.push(
+              `Outbound ${i + 1}: XRay mux (Mux.Cool) is not compatible with sing-box multiplex, dropped`,
+            );
+          }
+
+          if (converted.length > 1) {
+            warnings.push(
+              `Outbound ${i + 1}: expanded into ${converted.length} outbounds (${converted.map((o) => o.tag).join(", ")})`,
+            );
+          }
+        }
       }
     } catch (e) {
       errors.push(`Outbound ${i + 1}: ${(e as Error).message}`);
@@ -161,30 +313,75 @@ export function parseAmneziaConfig(jsonText: string): AmneziaParseResult {
   }
 
   return {
-    success: outbounds.length > 0,
+    success: outbounds.length > 0 || endpoints.length > 0,
     outbounds,
+    endpoints,
+    serviceOutbounds,
     errors,
+    warnings,
   };
 }
 
 /**
- * Convert single XRay outbound to sing-box format
+ * Convert single XRay proxy outbound to sing-box format
+ * Every server/user pair becomes its own outbound, tags get a "-N" suffix
+ * when there is more than one
  */
-function convertXRayToSingbox(xray: XRayOutbound, index: number): VlessOutbound | null {
-  const vnext = xray.settings?.vnext?.[0];
-  if (!vnext) {
-    throw new Error("No vnext configuration found");
+function convertXRayToSingbox(xray: XRayOutbound, index: number): ProxyOutbound[] {
+  const tag = xray.tag || `proxy-p${index}`;
+  let outbounds: ProxyOutbound[];
+
+  switch (xray.protocol) {
+    case "vless":
+    case "vmess":
+      outbounds = getVnextUsers(xray).map(({ vnext, user }) => convertVnextUser(xray, tag, vnext, user));
+      break;
+
+    case "trojan":
+    case "shadowsocks":
+    case "socks":
+    case "http":
+      outbounds = getServers(xray).flatMap((server) => {
+        const accounts = server.users && server.users.length > 0 ? server.users : [undefined];
+        return accounts.map((account) => convertServer(xray, tag, server, account));
+      });
+      break;
+
+    default:
+      throw new Error(`protocol "${xray.protocol}" not supported, skipping`);
   }
 
-  const user = vnext.users?.[0];
-  if (!user) {
-    throw new Error("No user configuration found");
+  if (outbounds.length > 1) {
+    outbounds.forEach((outbound, i) => {
+      outbound.tag = `${tag}-${i + 1}`;
+    });
   }
 
-  const stream = xray.streamSettings;
-  const tag = xray.tag || `proxy-p${index}`;
+  return outbounds;
+}
+
+/**
+ * Convert one vless/vmess server and user
+ */
+function convertVnextUser(xray: XRayOutbound, tag: string, vnext: XRayVnext, user: XRayUser): ProxyOutbound {
+  if (xray.protocol === "vmess") {
+    const outbound: VmessOutbound = {
+      type: "vmess",
+      tag,
+      server: vnext.address,
+      server_port: vnext.port,
+      uuid: user.id,
+      security: user.security || "auto",
+    };
+
+    if (user.alterId) {
+      outbound.alter_id = user.alterId;
+    }
+
+    applyStreamSettings(outbound, xray.streamSettings);
+    return outbound;
+  }
 
-  // Build base outbound
   const outbound: VlessOutbound = {
     type: "vless",
     tag,
@@ -198,25 +395,195 @@ function convertXRayToSingbox(xray: XRayOutbound, index: number): VlessOutbound
     outbound.flow = user.flow;
   }
 
-  // Process stream settings
-  if (stream) {
-    // TLS/Reality configuration
-    const security = stream.security;
-    if (security === "tls" || security === "reality") {
-      outbound.tls = buildTlsConfig(stream);
+  applyStreamSettings(outbound, xray.streamSettings);
+  return outbound;
+}
+
+/**
+ * Convert one trojan/shadowsocks/socks/http server (and socks/http account)
+ */
+function convertServer(
+  xray: XRayOutbound,
+  tag: string,
+  server: XRayServer,
+  account: XRayAccount | undefined,
+): ProxyOutbound {
+  switch (xray.protocol) {
+    case "trojan": {
+      if (!server.password) {
+        throw new Error("Missing password");
+      }
+
+      const outbound: TrojanOutbound = {
+        type: "trojan",
+        tag,
+        server: server.address,
+        server_port: server.port,
+        password: server.password,
+      };
+
+      applyStreamSettings(outbound, xray.streamSettings);
+      return outbound;
     }
 
-    // Transport configuration
-    const network = stream.network || "tcp";
-    if (network !== "tcp") {
-      const transport = buildTransport(network, stream);
-      if (transport) {
-        outbound.transport = transport;
+    case "shadowsocks": {
+      const method = (server.method || "").toLowerCase();
+      const password = server.password || "";
+
+      const methodError = validateShadowsocksMethod(method, password);
+      if (methodError) {
+        throw new Error(methodError);
       }
+
+      const outbound: ShadowsocksOutbound = {
+        type: "shadowsocks",
+        tag,
+        server: server.address,
+        server_port: server.port,
+        method,
+        password,
+      };
+      return outbound;
+    }
+
+    case "socks": {
+      const outbound: SocksOutbound = {
+        type: "socks",
+        tag,
+        server: server.address,
+        server_port: server.port,
+        version: "5",
+      };
+
+      if (account?.user) outbound.username = account.user;
+      if (account?.pass) outbound.password = account.pass;
+
+      return outbound;
+    }
+
+    default: {
+      const outbound: HttpOutbound = {
+        type: "http",
+        tag,
+        server: server.address,
+        server_port: server.port,
+      };
+
+      if (account?.user) outbound.username = account.user;
+      if (account?.pass) outbound.password = account.pass;
+
+      // HTTPS proxy
+      const stream = xray.streamSettings;
+      if (stream?.security === "tls") {
+        outbound.tls = buildTlsConfig(stream);
+      }
+
+      return outbound;
     }
   }
+}
 
-  return outbound;
+/**
+ * Get all server/user pairs of a vless/vmess outbound
+ */
+function getVnextUsers(xray: XRayOutbound): { vnext: XRayVnext; user: XRayUser }[] {
+  const vnextList = xray.settings?.vnext || [];
+  if (vnextList.length === 0) {
+    throw new Error("No vnext configuration found");
+  }
+
+  const pairs = vnextList.flatMap((vnext) => (vnext.users || []).map((user) => ({ vnext, user })));
+  if (pairs.length === 0) {
+    throw new Error("No user configuration found");
+  }
+
+  return pairs;
+}
+
+/**
+ * Get all servers of a trojan/shadowsocks/socks/http outbound
+ */
+function getServers(xray: XRayOutbound): XRayServer[] {
+  const servers = xray.settings?.servers || [];
+  if (servers.length === 0) {
+    throw new Error("No servers configuration found");
+  }
+
+  for (const server of servers) {
+    if (!server.address || !server.port) {
+      throw new Error("Missing server address or port");
+    }
+  }
+
+  return servers;
+}
+
+/**
+ * Apply TLS/Reality and transport from XRay stream settings
+ */
+function applyStreamSettings(
+  outbound: VlessOutbound | VmessOutbound | TrojanOutbound,
+  stream: XRayStreamSettings | undefined,
+): void {
+  if (!stream) {
+    return;
+  }
+
+  // TLS/Reality configuration
+  const security = stream.security;
+  if (security === "tls" || security === "reality") {
+    outbound.tls = buildTlsConfig(stream);
+  }
+
+  // Transport configuration
+  const transport = buildTransport(stream.network || "tcp", stream);
+  if (transport) {
+    outbound.transport = transport;
+  }
+}
+
+/**
+ * Convert XRay wireguard outbound to a sing-box endpoint
+ */
+function convertWireguard(xray: XRayOutbound, index: number): WireguardEndpoint {
+  const settings = xray.settings;
+  if (!settings?.secretKey) {
+    throw new Error("Missing secretKey");
+  }
+
+  const peers = settings.peers || [];
+  if (peers.length === 0) {
+    throw new Error("No peers configuration found");
+  }
+
+  const endpoint: WireguardEndpoint = {
+    type: "wireguard",
+    tag: xray.tag || `proxy-p${index}`,
+    private_key: settings.secretKey,
+    address: settings.address || [],
+    peers: peers.map((peer) => {
+      const address = parseHostPort(peer.endpoint || "");
+      if ("error" in address) {
+        throw new Error(`Peer endpoint: ${address.error}`);
+      }
+
+      return {
+        address: address.server,
+        port: address.port,
+        public_key: peer.publicKey,
+        ...(peer.preSharedKey && { pre_shared_key: peer.preSharedKey }),
+        allowed_ips: peer.allowedIPs || ["0.0.0.0/0", "::/0"],
+        ...(peer.keepAlive && { persistent_keepalive_interval: peer.keepAlive }),
+        ...(settings.reserved && { reserved: settings.reserved }),
+      };
+    }),
+  };
+
+  if (settings.mtu) {
+    endpoint.mtu = settings.mtu;
+  }
+
+  return endpoint;
 }
 
 /**
@@ -277,6 +644,26 @@ function buildTlsConfig(stream: XRayStreamSettings): TlsConfig {
       if (tls.allowInsecure) {
         tlsConfig.insecure = true;
       }
+
+      // Versions
+      const minVersion = parseTlsVersion(tls.minVersion);
+      if (minVersion) {
+        tlsConfig.min_version = minVersion;
+      }
+      const maxVersion = parseTlsVersion(tls.maxVersion);
+      if (maxVersion) {
+        tlsConfig.max_version = maxVersion;
+      }
+
+      // ECH
+      if (tls.echConfigList) {
+        tlsConfig.ech = buildEchConfig(tls.echConfigList);
+      }
+
+      // Public key pinning
+      if (tls.pinnedPeerCertificatePublicKeySha256 && tls.pinnedPeerCertificatePublicKeySha256.length > 0) {
+        tlsConfig.certificate_public_key_sha256 = tls.pinnedPeerCertificatePublicKeySha256;
+      }
     }
   }
 
@@ -288,6 +675,38 @@ function buildTlsConfig(stream: XRayStreamSettings): TlsConfig {
  */
 function buildTransport(network: string, stream: XRayStreamSettings): Transport | undefined {
   switch (network) {
+    case "tcp":
+    case "raw": {
+      // Plain TCP unless it carries HTTP header obfuscation
+      const header = (stream.tcpSettings || stream.rawSettings)?.header;
+      if (header?.type !== "http") {
+        return undefined;
+      }
+
+      const request = header.request;
+      const transport: HttpTransport = { type: "http" };
+
+      if (request?.path && request.path.length > 0) {
+        transport.path = request.path[0];
+      }
+
+      if (request?.method) {
+        transport.method = request.method;
+      }
+
+      // XRay header values are lists, sing-box takes Host separately
+      for (const [name, value] of Object.entries(request?.headers || {})) {
+        const values = Array.isArray(value) ? value : [value];
+        if (name.toLowerCase() === "host") {
+          transport.host = values;
+        } else if (values.length > 0) {
+          transport.headers = { ...transport.headers, [name]: values[0] };
+        }
+      }
+
+      return transport;
+    }
+
     case "ws": {
       const ws = stream.wsSettings;
       const transport: WsTransport = { type: "ws" };
@@ -330,10 +749,33 @@ function buildTransport(network: string, stream: XRayStreamSettings): Transport
       return transport;
     }
 
+    case "httpupgrade": {
+      const httpupgrade = stream.httpupgradeSettings;
+      const transport: HttpUpgradeTransport = { type: "httpupgrade" };
+
+      if (httpupgrade?.path) {
+        transport.path = httpupgrade.path;
+      }
+
+      if (httpupgrade?.host) {
+        transport.host = httpupgrade.host;
+      }
+
+      if (httpupgrade?.headers) {
+        transport.headers = httpupgrade.headers;
+      }
+
+      return transport;
+    }
+
     case "quic": {
       return { type: "quic" };
     }
 
+    case "xhttp":
+    case "splithttp":
+      throw new Error(`Transport "${network}" is not supported by sing-box`);
+
     default:
       return undefined;
   }
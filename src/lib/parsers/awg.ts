@@ -35,6 +35,10 @@
  *   "peers": [{ "address": "...", "port": 51820, ... }],
  *   "jc": 4, "jmin": 40, "jmax": 70, ...
  * }
+ *
+ * Configs without any Jc/S/H/I fields are stock WireGuard and are emitted
+ * as a standard sing-box "wireguard" endpoint instead, so they also work on
+ * builds without the AmneziaWG patch.
  */
 
 // AWG Peer configuration
@@ -80,12 +84,42 @@ export interface AwgEndpoint {
   peers: AwgPeer[];
 }
 
+// WireGuard Peer configuration (sing-box format)
+export interface WireguardPeer {
+  address: string;
+  port: number;
+  public_key: string;
+  pre_shared_key?: string;
+  allowed_ips: string[];
+  persistent_keepalive_interval?: number;
+  reserved?: number[];
+}
+
+// WireGuard Endpoint configuration (sing-box format)
+export interface WireguardEndpoint {
+  type: "wireguard";
+  tag: string;
+  private_key: string;
+  address: string[];
+  mtu?: number;
+  listen_port?: number;
+  peers: WireguardPeer[];
+}
+
 export interface AwgParseResult {
   success: boolean;
-  endpoint?: AwgEndpoint;
+  endpoint?: AwgEndpoint | WireguardEndpoint;
   errors: string[];
 }
 
+// AmneziaWG-only [Interface] keys (lowercased)
+const AWG_KEYS = [
+  "jc", "jmin", "jmax",
+  "s1", "s2", "s3", "s4",
+  "h1", "h2", "h3", "h4",
+  "i1", "i2", "i3", "i4", "i5",
+];
+
 interface ParsedSection {
   [key: string]: string;
 }
@@ -231,8 +265,36 @@ function parseCommaSeparated(value: string): string[] {
     .filter((s) => s.length > 0);
 }
 
+/**
+ * Convert a parsed AWG endpoint without obfuscation into a standard WireGuard endpoint
+ */
+function toWireguardEndpoint(awg: AwgEndpoint): WireguardEndpoint {
+  const endpoint: WireguardEndpoint = {
+    type: "wireguard",
+    tag: "wg-endpoint",
+    private_key: awg.private_key,
+    address: awg.address,
+    peers: awg.peers.map((peer) => ({
+      address: peer.address,
+      port: peer.port,
+      public_key: peer.public_key,
+      ...(peer.preshared_key && { pre_shared_key: peer.preshared_key }),
+      allowed_ips: peer.allowed_ips,
+      ...(peer.persistent_keepalive_interval !== undefined && {
+        persistent_keepalive_interval: peer.persistent_keepalive_interval,
+      }),
+    })),
+  };
+
+  if (awg.mtu !== undefined) endpoint.mtu = awg.mtu;
+  if (awg.listen_port !== undefined) endpoint.listen_port = awg.listen_port;
+
+  return endpoint;
+}
+
 /**
  * Parse AWG .conf file and convert to sing-box endpoint format
+ * Plain WireGuard configs (no AWG parameters) produce a "wireguard" endpoint
  */
 export function parseAwgConfig(confContent: string): AwgParseResult {
   const errors: string[] = [];
@@ -403,17 +465,37 @@ export function parseAwgConfig(confContent: string): AwgParseResult {
     };
   }
 
+  // Stock WireGuard: no AmneziaWG obfuscation parameters at all
+  const isPlainWireguard = !AWG_KEYS.some((key) => key in iface);
+
   return {
     success: true,
-    endpoint,
+    endpoint: isPlainWireguard ? toWireguardEndpoint(endpoint) : endpoint,
     errors,
   };
 }
 
 /**
- * Format AWG endpoint as JSON string wrapped in endpoints array
+ * Parse a plain WireGuard .conf file into a sing-box "wireguard" endpoint
+ * Rejects configs that carry AmneziaWG obfuscation parameters
+ */
+export function parseWireguardConfig(confContent: string): AwgParseResult {
+  const result = parseAwgConfig(confContent);
+
+  if (result.success && result.endpoint?.type === "awg") {
+    return {
+      success: false,
+      errors: ["Config contains AmneziaWG parameters (Jc/S/H/I), import it as AmneziaWG"],
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Format AWG/WireGuard endpoint as JSON string wrapped in endpoints array
  */
-export function formatAwgEndpointJson(endpoint: AwgEndpoint, pretty: boolean = true): string {
+export function formatAwgEndpointJson(endpoint: AwgEndpoint | WireguardEndpoint, pretty: boolean = true): string {
   const wrapper = {
     endpoints: [endpoint],
   };
@@ -0,0 +1,139 @@
+/**
+ * AmneziaVPN backup file parser
+ * Lists every server/container pair of a client backup and converts them
+ *
+ * Input format (.backup, JSON dump of the client settings):
+ * {
+ *   "Servers/serversList": [
+ *     { "hostName": "...", "description": "...", "containers": [...] },
+ *     ...
+ *   ],
+ *   ...
+ * }
+ *
+ * The server list may also be stored as a JSON string, and a bare array of
+ * servers is accepted too. Each server has the same shape as a decoded
+ * vpn:// string, so containers are converted by convertAmneziaContainer.
+ */
+
+import { convertAmneziaContainer } from "./vpn";
+import type { AmneziaServer, VpnLinkParseResult } from "./vpn";
+
+// Settings key the client keeps its servers under
+const SERVERS_KEY = "Servers/serversList";
+
+export interface AmneziaBackupEntry {
+  // Server description or host name
+  server: string;
+  // Container name, e.g. "amnezia-awg"
+  container: string;
+  // Converted container, absent when it cannot be used
+  result?: VpnLinkParseResult;
+  // Why the container was skipped
+  reason?: string;
+}
+
+export interface AmneziaBackupParseResult {
+  success: boolean;
+  entries: AmneziaBackupEntry[];
+  errors: string[];
+}
+
+/**
+ * Find the server list in a backup JSON
+ */
+function extractServers(backup: unknown): AmneziaServer[] | null {
+  if (Array.isArray(backup)) {
+    return backup as AmneziaServer[];
+  }
+
+  if (!backup || typeof backup !== "object") {
+    return null;
+  }
+
+  let servers = (backup as Record<string, unknown>)[SERVERS_KEY];
+  if (typeof servers === "string") {
+    try {
+      servers = JSON.parse(servers);
+    } catch {
+      return null;
+    }
+  }
+
+  return Array.isArray(servers) ? (servers as AmneziaServer[]) : null;
+}
+
+/**
+ * Name converted outbounds/endpoints after their server and container,
+ * so several servers don't collide on tags like "awg-endpoint" or "proxy"
+ */
+function retag(result: VpnLinkParseResult, base: string): void {
+  const items = [...result.outbounds, ...result.endpoints];
+  items.forEach((item, i) => {
+    item.tag = items.length > 1 ? `${base}-${i + 1}` : base;
+  });
+}
+
+/**
+ * Parse AmneziaVPN backup and convert every container
+ */
+export function parseAmneziaBackup(jsonText: string): AmneziaBackupParseResult {
+  const errors: string[] = [];
+  const entries: AmneziaBackupEntry[] = [];
+
+  // Parse JSON
+  let backup: unknown;
+  try {
+    backup = JSON.parse(jsonText);
+  } catch (e) {
+    return {
+      success: false,
+      entries: [],
+      errors: [`Invalid JSON: ${(e as Error).message}`],
+    };
+  }
+
+  const servers = extractServers(backup);
+  if (!servers || servers.length === 0) {
+    return {
+      success: false,
+      entries: [],
+      errors: [`No server list (${SERVERS_KEY}) found in backup`],
+    };
+  }
+
+  for (let i = 0; i < servers.length; i++) {
+    const server = servers[i];
+    const serverName = server?.description || server?.hostName || `Server ${i + 1}`;
+
+    if (!server || !Array.isArray(server.containers) || server.containers.length === 0) {
+      errors.push(`${serverName}: no containers, skipping`);
+      continue;
+    }
+
+    for (const container of server.containers) {
+      const containerName = container?.container || "unknown";
+      const entry: AmneziaBackupEntry = { server: serverName, container: containerName };
+
+      try {
+        const result = convertAmneziaContainer(server, container);
+        if (result.success) {
+          retag(result, `${serverName} ${containerName.replace(/^amnezia-/, "")}`);
+          entry.result = result;
+        } else {
+          entry.reason = result.errors.join("; ") || "no usable outbounds";
+        }
+      } catch (e) {
+        entry.reason = (e as Error).message;
+      }
+
+      entries.push(entry);
+    }
+  }
+
+  return {
+    success: entries.some((entry) => entry.result),
+    entries,
+    errors,
+  };
+}
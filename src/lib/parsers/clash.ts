@@ -0,0 +1,783 @@
+/**
+ * Clash / Mihomo YAML config parser
+ * Converts the `proxies:` list and `proxy-groups:` into sing-box format
+ *
+ * Input format (Clash Meta):
+ * proxies:
+ *   - name: "node-1"
+ *     type: vless
+ *     server: example.com
+ *     port: 443
+ *     uuid: ...
+ *     tls: true
+ *     reality-opts: { public-key: ..., short-id: ... }
+ * proxy-groups:
+ *   - name: "Proxy"
+ *     type: select
+ *     proxies: ["node-1", "DIRECT"]
+ *
+ * Supported proxy types: vless, vmess, trojan, ss, hysteria2, tuic, wireguard
+ * Supported group types: select -> selector, url-test -> urltest
+ */
+
+import { parse as parseYaml } from "yaml";
+import type {
+  ProxyOutbound,
+  VlessOutbound,
+  VmessOutbound,
+  TrojanOutbound,
+  ShadowsocksOutbound,
+  Hysteria2Outbound,
+  TuicOutbound,
+  GroupOutbound,
+  TlsConfig,
+  Transport,
+  TlsFingerprint,
+  AlpnProtocol,
+} from "./types";
+import type { AwgEndpoint, WireguardEndpoint } from "./awg";
+import { VALID_FINGERPRINTS, decodeBase64Bytes, parsePort } from "./common";
+import { parsePortList } from "./hysteria2";
+import { validateShadowsocksMethod } from "./shadowsocks";
+
+// Clash Meta types
+interface ClashWsOpts {
+  path?: string;
+  headers?: Record<string, string>;
+  "max-early-data"?: number;
+  "early-data-header-name"?: string;
+}
+
+interface ClashGrpcOpts {
+  "grpc-service-name"?: string;
+}
+
+interface ClashH2Opts {
+  host?: string[];
+  path?: string;
+}
+
+interface ClashHttpOpts {
+  method?: string;
+  path?: string[];
+  headers?: Record<string, string[]>;
+}
+
+interface ClashRealityOpts {
+  "public-key"?: string;
+  "short-id"?: string;
+}
+
+interface ClashPluginOpts {
+  mode?: string;
+  host?: string;
+  path?: string;
+  tls?: boolean;
+}
+
+interface ClashAmneziaOpts {
+  jc?: number;
+  jmin?: number;
+  jmax?: number;
+  s1?: number;
+  s2?: number;
+  h1?: number | string;
+  h2?: number | string;
+  h3?: number | string;
+  h4?: number | string;
+}
+
+interface ClashProxy {
+  name: string;
+  type: string;
+  server: string;
+  port: number | string;
+
+  // vless / vmess / tuic
+  uuid?: string;
+  flow?: string;
+  alterId?: number;
+  cipher?: string;
+  password?: string;
+
+  // TLS
+  tls?: boolean;
+  servername?: string;
+  sni?: string;
+  "skip-cert-verify"?: boolean;
+  alpn?: string[];
+  "client-fingerprint"?: string;
+  "reality-opts"?: ClashRealityOpts;
+
+  // Transport
+  network?: string;
+  "ws-opts"?: ClashWsOpts;
+  "grpc-opts"?: ClashGrpcOpts;
+  "h2-opts"?: ClashH2Opts;
+  "http-opts"?: ClashHttpOpts;
+
+  // Shadowsocks
+  plugin?: string;
+  "plugin-opts"?: ClashPluginOpts;
+
+  // Hysteria2
+  ports?: string;
+  obfs?: string;
+  "obfs-password"?: string;
+  up?: string | number;
+  down?: string | number;
+
+  // TUIC
+  token?: string;
+  "congestion-controller"?: string;
+  "udp-relay-mode"?: string;
+  "reduce-rtt"?: boolean;
+  "heartbeat-interval"?: number;
+  "disable-sni"?: boolean;
+
+  // WireGuard
+  ip?: string;
+  ipv6?: string;
+  "private-key"?: string;
+  "public-key"?: string;
+  "pre-shared-key"?: string;
+  mtu?: number;
+  "allowed-ips"?: string[];
+  "persistent-keepalive"?: number;
+  reserved?: number[] | string;
+  "amnezia-wg-option"?: ClashAmneziaOpts;
+}
+
+interface ClashProxyGroup {
+  name: string;
+  type: string;
+  proxies?: string[];
+  use?: string[];
+  url?: string;
+  interval?: number;
+  tolerance?: number;
+}
+
+interface ClashConfig {
+  proxies?: ClashProxy[];
+  "proxy-groups"?: ClashProxyGroup[];
+}
+
+export interface ClashParseResult {
+  success: boolean;
+  outbounds: ProxyOutbound[];
+  endpoints: (AwgEndpoint | WireguardEndpoint)[];
+  groups: GroupOutbound[];
+  errors: string[];
+}
+
+// Tags buildConfig reserves for its own outbounds
+const SYSTEM_TAGS = ["proxy", "auto", "direct"];
+
+/**
+ * Tag for a proxy or group named like a system outbound: "<name>-<suffix>",
+ * numbered when that is taken too. The result is added to taken
+ */
+function uniqueTag(name: string, suffix: string, taken: Set<string>): string {
+  let tag = `${name}-${suffix}`;
+  for (let n = 2; taken.has(tag); n++) {
+    tag = `${name}-${suffix}-${n}`;
+  }
+  taken.add(tag);
+  return tag;
+}
+
+// Built-in Clash policies that map onto sing-box system outbounds
+const BUILTIN_POLICIES: Record<string, string | null> = {
+  DIRECT: "direct",
+  REJECT: null,
+  "REJECT-DROP": null,
+  PASS: null,
+};
+
+/**
+ * Parse Clash / Mihomo YAML and convert to sing-box format
+ */
+export function parseClashConfig(yamlText: string): ClashParseResult {
+  const errors: string[] = [];
+  const outbounds: ProxyOutbound[] = [];
+  const endpoints: (AwgEndpoint | WireguardEndpoint)[] = [];
+
+  // Parse YAML
+  let config: ClashConfig;
+  try {
+    config = parseYaml(yamlText);
+  } catch (e) {
+    return {
+      success: false,
+      outbounds: [],
+      endpoints: [],
+      groups: [],
+      errors: [`Invalid YAML: ${(e as Error).message}`],
+    };
+  }
+
+  if (!config || typeof config !== "object" || !Array.isArray(config.proxies)) {
+    return {
+      success: false,
+      outbounds: [],
+      endpoints: [],
+      groups: [],
+      errors: ["No proxies list found in config"],
+    };
+  }
+
+  let clashGroups = config["proxy-groups"] ?? [];
+  if (!Array.isArray(clashGroups)) {
+    errors.push("proxy-groups is not a list, skipping groups");
+    clashGroups = [];
+  }
+
+  // YAML may give numeric names, tags are always strings
+  for (const item of [...config.proxies, ...clashGroups]) {
+    if (item && typeof item === "object" && item.name != null) {
+      item.name = String(item.name);
+    }
+  }
+
+  // Renamed tags must not clash with any name in the file
+  const taken = new Set<string>([
+    ...SYSTEM_TAGS,
+    ...config.proxies.flatMap((proxy) => (proxy?.name ? [proxy.name] : [])),
+    ...clashGroups.flatMap((group) => (group?.name ? [group.name] : [])),
+  ]);
+
+  // Process each proxy; names map to tags, which must not clash with buildConfig system tags
+  const proxyTags = new Map<string, string>();
+  for (let i = 0; i < config.proxies.length; i++) {
+    const proxy = config.proxies[i];
+    const label = proxy?.name ? `Proxy "${proxy.name}"` : `Proxy ${i + 1}`;
+
+    try {
+      if (!proxy || typeof proxy !== "object") {
+        throw new Error("Not a mapping");
+      }
+      if (!proxy.name) {
+        throw new Error("Missing name");
+      }
+
+      const converted = proxy.type === "wireguard" ? convertWireguard(proxy) : convertProxy(proxy);
+      if (SYSTEM_TAGS.includes(proxy.name)) {
+        converted.tag = uniqueTag(proxy.name, "proxy", taken);
+      }
+      if (converted.type === "awg" || converted.type === "wireguard") {
+        endpoints.push(converted);
+      } else {
+        outbounds.push(converted);
+      }
+      proxyTags.set(proxy.name, converted.tag);
+    } catch (e) {
+      errors.push(`${label}: ${(e as Error).message}`);
+    }
+  }
+
+  const groups = convertGroups(clashGroups, proxyTags, taken, errors);
+
+  return {
+    success: outbounds.length > 0 || endpoints.length > 0,
+    outbounds,
+    endpoints,
+    groups,
+    errors,
+  };
+}
+
+/**
+ * Convert a single Clash proxy to a sing-box outbound
+ */
+function convertProxy(proxy: ClashProxy): ProxyOutbound {
+  const server = proxy.server;
+  if (!server) {
+    throw new Error("Missing server");
+  }
+
+  // Hysteria2 may carry a port range instead of a single port
+  if (proxy.type === "hysteria2") {
+    return convertHysteria2(proxy);
+  }
+
+  const port = parsePort(proxy.port ?? "");
+  if (port === null) {
+    throw new Error("Invalid port number");
+  }
+
+  switch (proxy.type) {
+    case "vless": {
+      if (!proxy.uuid) throw new Error("Missing uuid");
+
+      const outbound: VlessOutbound = {
+        type: "vless",
+        tag: proxy.name,
+        server,
+        server_port: port,
+        uuid: proxy.uuid,
+      };
+      if (proxy.flow) outbound.flow = proxy.flow;
+
+      const tls = buildTlsConfig(proxy, false);
+      if (tls) outbound.tls = tls;
+
+      const transport = buildTransport(proxy);
+      if (transport) outbound.transport = transport;
+
+      return outbound;
+    }
+
+    case "vmess": {
+      if (!proxy.uuid) throw new Error("Missing uuid");
+
+      const outbound: VmessOutbound = {
+        type: "vmess",
+        tag: proxy.name,
+        server,
+        server_port: port,
+        uuid: proxy.uuid,
+        security: proxy.cipher || "auto",
+      };
+      if (proxy.alterId) outbound.alter_id = proxy.alterId;
+
+      const tls = buildTlsConfig(proxy, false);
+      if (tls) outbound.tls = tls;
+
+      const transport = buildTransport(proxy);
+      if (transport) outbound.transport = transport;
+
+      return outbound;
+    }
+
+    case "trojan": {
+      if (!proxy.password) throw new Error("Missing password");
+
+      const outbound: TrojanOutbound = {
+        type: "trojan",
+        tag: proxy.name,
+        server,
+        server_port: port,
+        password: proxy.password,
+      };
+
+      const tls = buildTlsConfig(proxy, true);
+      if (tls) outbound.tls = tls;
+
+      const transport = buildTransport(proxy);
+      if (transport) outbound.transport = transport;
+
+      return outbound;
+    }
+
+    case "ss": {
+      const method = (proxy.cipher || "").toLowerCase();
+      const password = proxy.password || "";
+
+      const methodError = validateShadowsocksMethod(method, password);
+      if (methodError) throw new Error(methodError);
+
+      const outbound: ShadowsocksOutbound = {
+        type: "shadowsocks",
+        tag: proxy.name,
+        server,
+        server_port: port,
+        method,
+        password,
+      };
+
+      if (proxy.plugin) {
+        const plugin = convertPlugin(proxy.plugin, proxy["plugin-opts"] || {});
+        outbound.plugin = plugin.name;
+        if (plugin.opts) outbound.plugin_opts = plugin.opts;
+      }
+
+      return outbound;
+    }
+
+    case "tuic": {
+      if (proxy.token || !proxy.uuid) {
+        throw new Error("TUIC v4 (token) is not supported: sing-box requires TUIC v5 uuid/password");
+      }
+
+      const outbound: TuicOutbound = {
+        type: "tuic",
+        tag: proxy.name,
+        server,
+        server_port: port,
+        uuid: proxy.uuid,
+        tls: buildTlsConfig(proxy, true) as TlsConfig,
+      };
+      if (proxy["disable-sni"]) delete outbound.tls.server_name;
+      if (proxy.password) outbound.password = proxy.password;
+
+      const cc = proxy["congestion-controller"];
+      if (cc) {
+        if (cc !== "cubic" && cc !== "new_reno" && cc !== "bbr") {
+          throw new Error(`Invalid congestion control: ${cc}`);
+        }
+        outbound.congestion_control = cc;
+      }
+
+      const udpRelayMode = proxy["udp-relay-mode"];
+      if (udpRelayMode) {
+        if (udpRelayMode !== "native" && udpRelayMode !== "quic") {
+          throw new Error(`Invalid UDP relay mode: ${udpRelayMode}`);
+        }
+        outbound.udp_relay_mode = udpRelayMode;
+      }
+
+      if (proxy["reduce-rtt"]) outbound.zero_rtt_handshake = true;
+      if (proxy["heartbeat-interval"]) outbound.heartbeat = `${proxy["heartbeat-interval"]}ms`;
+
+      return outbound;
+    }
+
+    default:
+      throw new Error(`type "${proxy.type}" is not supported`);
+  }
+}
+
+/**
+ * Convert a Clash hysteria2 proxy, including port hopping
+ */
+function convertHysteria2(proxy: ClashProxy): Hysteria2Outbound {
+  const ports = parsePortList(proxy.ports ? String(proxy.ports) : String(proxy.port ?? ""));
+  if ("error" in ports) {
+    throw new Error(ports.error);
+  }
+
+  const outbound: Hysteria2Outbound = {
+    type: "hysteria2",
+    tag: proxy.name,
+    server: proxy.server,
+    server_port: ports.port,
+    tls: buildTlsConfig(proxy, true) as TlsConfig,
+  };
+
+  if (ports.ranges.length > 1 || ports.ranges[0] !== `${ports.port}:${ports.port}`) {
+    outbound.server_ports = ports.ranges;
+  }
+
+  if (proxy.password) outbound.password = proxy.password;
+
+  if (proxy.obfs) {
+    if (proxy.obfs !== "salamander") {
+      throw new Error(`Unsupported obfs type: ${proxy.obfs}`);
+    }
+    if (!proxy["obfs-password"]) {
+      throw new Error("Salamander obfs requires obfs-password");
+    }
+    outbound.obfs = { type: "salamander", password: proxy["obfs-password"] };
+  }
+
+  // "100 Mbps" or a bare number of Mbps
+  const upMbps = parseInt(String(proxy.up ?? ""), 10);
+  if (!isNaN(upMbps) && upMbps > 0) outbound.up_mbps = upMbps;
+  const downMbps = parseInt(String(proxy.down ?? ""), 10);
+  if (!isNaN(downMbps) && downMbps > 0) outbound.down_mbps = downMbps;
+
+  return outbound;
+}
+
+/**
+ * Convert a Clash wireguard proxy to a sing-box endpoint
+ * Proxies with amnezia-wg-option become AWG endpoints
+ */
+function convertWireguard(proxy: ClashProxy): AwgEndpoint | WireguardEndpoint {
+  const port = parsePort(proxy.port ?? "");
+  if (!proxy.server || port === null) {
+    throw new Error("Missing server or invalid port");
+  }
+  if (!proxy["private-key"] || !proxy["public-key"]) {
+    throw new Error("private-key and public-key are required");
+  }
+
+  const address: string[] = [];
+  if (proxy.ip) address.push(proxy.ip.includes("/") ? proxy.ip : `${proxy.ip}/32`);
+  if (proxy.ipv6) address.push(proxy.ipv6.includes("/") ? proxy.ipv6 : `${proxy.ipv6}/128`);
+
+  const allowedIps = proxy["allowed-ips"] || ["0.0.0.0/0", "::/0"];
+  const awgOptions = proxy["amnezia-wg-option"];
+
+  if (awgOptions) {
+    const endpoint: AwgEndpoint = {
+      type: "awg",
+      tag: proxy.name,
+      useIntegratedTun: false,
+      private_key: proxy["private-key"],
+      address,
+      mtu: proxy.mtu || 1280,
+      peers: [
+        {
+          address: proxy.server,
+          port,
+          public_key: proxy["public-key"],
+          ...(proxy["pre-shared-key"] && { preshared_key: proxy["pre-shared-key"] }),
+          allowed_ips: allowedIps,
+          ...(proxy["persistent-keepalive"] && {
+            persistent_keepalive_interval: proxy["persistent-keepalive"],
+          }),
+        },
+      ],
+    };
+
+    if (awgOptions.jc !== undefined) endpoint.jc = awgOptions.jc;
+    if (awgOptions.jmin !== undefined) endpoint.jmin = awgOptions.jmin;
+    if (awgOptions.jmax !== undefined) endpoint.jmax = awgOptions.jmax;
+    if (awgOptions.s1 !== undefined) endpoint.s1 = awgOptions.s1;
+    if (awgOptions.s2 !== undefined) endpoint.s2 = awgOptions.s2;
+    if (awgOptions.h1 !== undefined) endpoint.h1 = String(awgOptions.h1);
+    if (awgOptions.h2 !== undefined) endpoint.h2 = String(awgOptions.h2);
+    if (awgOptions.h3 !== undefined) endpoint.h3 = String(awgOptions.h3);
+    if (awgOptions.h4 !== undefined) endpoint.h4 = String(awgOptions.h4);
+
+    return endpoint;
+  }
+
+  const endpoint: WireguardEndpoint = {
+    type: "wireguard",
+    tag: proxy.name,
+    private_key: proxy["private-key"],
+    address,
+    peers: [
+      {
+        address: proxy.server,
+        port,
+        public_key: proxy["public-key"],
+        ...(proxy["pre-shared-key"] && { pre_shared_key: proxy["pre-shared-key"] }),
+        allowed_ips: allowedIps,
+        ...(proxy["persistent-keepalive"] && {
+          persistent_keepalive_interval: proxy["persistent-keepalive"],
+        }),
+      },
+    ],
+  };
+
+  if (proxy.mtu) endpoint.mtu = proxy.mtu;
+
+  // Reserved bytes: [1, 2, 3] or base64 string
+  if (proxy.reserved) {
+    const reserved = Array.isArray(proxy.reserved)
+      ? proxy.reserved
+      : Array.from(decodeBase64Bytes(proxy.reserved));
+    if (reserved.length !== 3) {
+      throw new Error("reserved must contain 3 bytes");
+    }
+    endpoint.peers[0].reserved = reserved;
+  }
+
+  return endpoint;
+}
+
+/**
+ * Build TLS configuration from Clash TLS fields
+ * Returns undefined when TLS is disabled and not forced
+ */
+function buildTlsConfig(proxy: ClashProxy, alwaysEnabled: boolean): TlsConfig | undefined {
+  const reality = proxy["reality-opts"];
+  if (!alwaysEnabled && !proxy.tls && !reality) {
+    return undefined;
+  }
+
+  const tlsConfig: TlsConfig = {
+    enabled: true,
+  };
+
+  const serverName = proxy.servername || proxy.sni;
+  if (serverName) {
+    tlsConfig.server_name = serverName;
+  } else if (!reality) {
+    tlsConfig.server_name = proxy.server;
+  }
+
+  if (proxy["skip-cert-verify"]) {
+    tlsConfig.insecure = true;
+  }
+
+  if (proxy.alpn && proxy.alpn.length > 0) {
+    tlsConfig.alpn = proxy.alpn as AlpnProtocol[];
+  }
+
+  const fingerprint = proxy["client-fingerprint"] as TlsFingerprint | undefined;
+  if (fingerprint && VALID_FINGERPRINTS.includes(fingerprint)) {
+    tlsConfig.utls = {
+      enabled: true,
+      fingerprint,
+    };
+  }
+
+  if (reality) {
+    if (!reality["public-key"]) {
+      throw new Error("Reality requires public-key");
+    }
+    tlsConfig.reality = {
+      enabled: true,
+      public_key: reality["public-key"],
+      short_id: reality["short-id"] || "",
+    };
+  }
+
+  return tlsConfig;
+}
+
+/**
+ * Build transport configuration from Clash network options
+ */
+function buildTransport(proxy: ClashProxy): Transport | undefined {
+  switch (proxy.network || "tcp") {
+    case "tcp":
+      return undefined;
+
+    case "ws": {
+      const opts = proxy["ws-opts"] || {};
+      return {
+        type: "ws",
+        ...(opts.path && { path: opts.path }),
+        ...(opts.headers && { headers: opts.headers }),
+        ...(opts["max-early-data"] && { max_early_data: opts["max-early-data"] }),
+        ...(opts["early-data-header-name"] && { early_data_header_name: opts["early-data-header-name"] }),
+      };
+    }
+
+    case "grpc": {
+      const opts = proxy["grpc-opts"] || {};
+      return {
+        type: "grpc",
+        ...(opts["grpc-service-name"] && { service_name: opts["grpc-service-name"] }),
+      };
+    }
+
+    case "h2": {
+      const opts = proxy["h2-opts"] || {};
+      return {
+        type: "http",
+        ...(opts.host && opts.host.length > 0 && { host: opts.host }),
+        ...(opts.path && { path: opts.path }),
+      };
+    }
+
+    case "http": {
+      const opts = proxy["http-opts"] || {};
+      const host = opts.headers?.Host;
+      return {
+        type: "http",
+        ...(host && host.length > 0 && { host }),
+        ...(opts.path && opts.path.length > 0 && { path: opts.path[0] }),
+        ...(opts.method && { method: opts.method }),
+      };
+    }
+
+    default:
+      throw new Error(`network "${proxy.network}" is not supported`);
+  }
+}
+
+/**
+ * Convert Clash shadowsocks plugin settings to sing-box plugin/plugin_opts
+ */
+function convertPlugin(plugin: string, opts: ClashPluginOpts): { name: string; opts: string } {
+  switch (plugin) {
+    case "obfs": {
+      const parts = [`obfs=${opts.mode || "http"}`];
+      if (opts.host) parts.push(`obfs-host=${opts.host}`);
+      return { name: "obfs-local", opts: parts.join(";") };
+    }
+
+    case "v2ray-plugin": {
+      const parts = [`mode=${opts.mode || "websocket"}`];
+      if (opts.tls) parts.push("tls");
+      if (opts.host) parts.push(`host=${opts.host}`);
+      if (opts.path) parts.push(`path=${opts.path}`);
+      return { name: "v2ray-plugin", opts: parts.join(";") };
+    }
+
+    default:
+      throw new Error(`Unsupported plugin: ${plugin}`);
+  }
+}
+
+/**
+ * Convert select/url-test proxy groups to sing-box selector/urltest outbounds
+ * Members that failed to convert are dropped and reported
+ */
+function convertGroups(
+  clashGroups: ClashProxyGroup[],
+  proxyTags: Map<string, string>,
+  taken: Set<string>,
+  errors: string[],
+): GroupOutbound[] {
+  const supported = clashGroups.filter((group, i) => {
+    if (!group || typeof group !== "object" || !group.name) {
+      errors.push(`Group ${i + 1}: missing name, skipping`);
+      return false;
+    }
+    if (group.proxies !== undefined && !Array.isArray(group.proxies)) {
+      errors.push(`Group "${group.name}": proxies is not a list, skipping`);
+      return false;
+    }
+    if (group.type === "select" || group.type === "url-test") return true;
+    errors.push(`Group "${group.name}": type "${group.type}" is not supported, skipping`);
+    return false;
+  });
+
+  // Group names must not clash with buildConfig system tags
+  const groupTags = new Map<string, string>();
+  for (const group of supported) {
+    groupTags.set(group.name, SYSTEM_TAGS.includes(group.name) ? uniqueTag(group.name, "group", taken) : group.name);
+  }
+
+  const groups: GroupOutbound[] = [];
+  for (const group of supported) {
+    const tag = groupTags.get(group.name) as string;
+    const members: string[] = [];
+
+    const providers = group.use ? [group.use].flat() : [];
+    if (providers.length > 0) {
+      errors.push(`Group "${group.name}": proxy-providers (${providers.join(", ")}) are not supported`);
+    }
+
+    for (const member of (group.proxies || []).map(String)) {
+      if (member in BUILTIN_POLICIES) {
+        const mapped = BUILTIN_POLICIES[member];
+        if (mapped) {
+          members.push(mapped);
+        } else {
+          errors.push(`Group "${group.name}": policy "${member}" has no sing-box equivalent, skipping`);
+        }
+      } else if (groupTags.has(member)) {
+        members.push(groupTags.get(member) as string);
+      } else if (proxyTags.has(member)) {
+        members.push(proxyTags.get(member) as string);
+      } else {
+        errors.push(`Group "${group.name}": member "${member}" was not imported, skipping`);
+      }
+    }
+
+    if (members.length === 0) {
+      errors.push(`Group "${group.name}": no usable members, skipping`);
+      continue;
+    }
+
+    if (group.type === "select") {
+      groups.push({ type: "selector", tag, outbounds: members });
+    } else {
+      groups.push({
+        type: "urltest",
+        tag,
+        outbounds: members,
+        url: group.url || "https://www.gstatic.com/generate_204",
+        interval: `${group.interval || 300}s`,
+        ...(group.tolerance !== undefined && { tolerance: group.tolerance }),
+      });
+    }
+  }
+
+  // Drop references to groups that were skipped themselves
+  const keptTags = new Set([...groups.map((g) => g.tag), ...proxyTags.values()]);
+  for (const group of groups) {
+    group.outbounds = group.outbounds.filter((member) => keptTags.has(member) || member === "direct");
+  }
+
+  return groups.filter((group) => group.outbounds.length > 0);
+}
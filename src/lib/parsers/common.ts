@@ -0,0 +1,481 @@
+/**
+ * Shared helpers for proxy link parsers
+ *
+ * Host/port splitting, base64 decoding and transport building are the same
+ * for every share-link format, so parsers import them from here.
+ */
+
+import type {
+  ParseResult,
+  TlsConfig,
+  AlpnProtocol,
+  Transport,
+  TransportType,
+  WsTransport,
+  GrpcTransport,
+  HttpTransport,
+  HttpUpgradeTransport,
+  TlsFingerprint,
+  MultiplexConfig,
+  MultiplexProtocol,
+  PacketEncoding,
+  EchConfig,
+  TlsVersion,
+} from "./types";
+
+// Valid values for validation
+export const VALID_TRANSPORTS: TransportType[] = ["tcp", "ws", "grpc", "http", "quic", "httpupgrade"];
+// XRay-only transports sing-box has no equivalent for
+export const UNSUPPORTED_TRANSPORTS: TransportType[] = ["xhttp", "splithttp"];
+export const VALID_TLS_VERSIONS: TlsVersion[] = ["1.0", "1.1", "1.2", "1.3"];
+export const VALID_MULTIPLEX_PROTOCOLS: MultiplexProtocol[] = ["smux", "yamux", "h2mux"];
+export const VALID_PACKET_ENCODINGS: PacketEncoding[] = ["xudp", "packetaddr"];
+export const VALID_FINGERPRINTS: TlsFingerprint[] = [
+  "chrome", "firefox", "edge", "safari", "360", "qq", "ios", "android", "random", "randomized"
+];
+
+/**
+ * Build a failed ParseResult
+ */
+export function parseFailure(link: string, lineNumber: number, error: string): ParseResult {
+  return {
+    success: false,
+    error,
+    originalLink: link,
+    lineNumber,
+  };
+}
+
+/**
+ * Decode standard or URL-safe base64 (padding optional) into raw bytes
+ * Throws if the input is not valid base64
+ */
+export function decodeBase64Bytes(input: string): Uint8Array {
+  let normalized = input.trim().replace(/\s+/g, "").replace(/-/g, "+").replace(/_/g, "/");
+
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(normalized)) {
+    throw new Error("Invalid base64 characters");
+  }
+
+  normalized = normalized.replace(/=+$/, "");
+  if (normalized.length % 4 === 1) {
+    throw new Error("Invalid base64 length");
+  }
+  normalized += "=".repeat((4 - (normalized.length % 4)) % 4);
+
+  const binary = atob(normalized);
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/**
+ * Decode standard or URL-safe base64 (padding optional) into a UTF-8 string
+ * Throws if the input is not valid base64 or not valid UTF-8
+ */
+export function decodeBase64(input: string): string {
+  return new TextDecoder("utf-8", { fatal: true }).decode(decodeBase64Bytes(input));
+}
+
+/**
+ * Split "host:port" or "[ipv6]:port" into server and port
+ * Returns an error message instead of throwing so parsers can report it per line
+ */
+export function parseHostPort(hostPort: string): { server: string; port: number } | { error: string } {
+  let server: string;
+  let portPart: string;
+
+  // Handle IPv6 addresses [::1]:port
+  if (hostPort.startsWith("[")) {
+    const bracketEnd = hostPort.indexOf("]");
+    if (bracketEnd === -1) {
+      return { error: "Invalid IPv6 address format" };
+    }
+    server = hostPort.slice(1, bracketEnd);
+    const rest = hostPort.slice(bracketEnd + 1);
+    if (!rest.startsWith(":")) {
+      return { error: "Missing port after IPv6 address" };
+    }
+    portPart = rest.slice(1);
+  } else {
+    const colonIndex = hostPort.lastIndexOf(":");
+    if (colonIndex === -1) {
+      return { error: "Missing port" };
+    }
+    server = hostPort.slice(0, colonIndex);
+    portPart = hostPort.slice(colonIndex + 1);
+  }
+
+  if (!server) {
+    return { error: "Missing server address" };
+  }
+
+  const port = parsePort(portPart);
+  if (port === null) {
+    return { error: "Invalid port number" };
+  }
+
+  return { server, port };
+}
+
+/**
+ * Parse a port number, returning null when it is out of range
+ */
+export function parsePort(value: string | number): number | null {
+  const port = typeof value === "number" ? value : /^\d+$/.test(value.trim()) ? parseInt(value, 10) : NaN;
+  if (isNaN(port) || port < 1 || port > 65535) {
+    return null;
+  }
+  return port;
+}
+
+/**
+ * decodeURIComponent that returns the input unchanged on malformed escapes
+ */
+export function safeDecodeURIComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Build ECH configuration from an XRay echConfigList value
+ * A base64 ECHConfigList becomes PEM lines; "domain+dns-server" or a bare
+ * domain names the HTTPS record to query; anything else (a DNS server alone)
+ * leaves sing-box to fetch the config for the server name
+ */
+export function buildEchConfig(value: string): EchConfig {
+  const ech: EchConfig = { enabled: true };
+
+  let bytes: Uint8Array | null = null;
+  try {
+    bytes = decodeBase64Bytes(value);
+  } catch {
+    // Not a config list
+  }
+
+  // Valid base64 too short for a config list is neither form
+  if (bytes && bytes.length > 4) {
+    const base64 = btoa(String.fromCharCode(...bytes));
+    ech.config = [
+      "-----BEGIN ECH CONFIGS-----",
+      ...(base64.match(/.{1,64}/g) ?? []),
+      "-----END ECH CONFIGS-----",
+    ];
+  } else if (!bytes) {
+    // "domain+dns-server" form names the domain to query
+    const [domain, dnsServer] = value.split("+");
+    if ((dnsServer || !value.includes("+")) && /^([a-z0-9-]+\.)+[a-z][a-z0-9-]*$/i.test(domain)) {
+      ech.query_server_name = domain;
+    }
+  }
+
+  return ech;
+}
+
+/**
+ * Check a TLS version parameter
+ */
+export function parseTlsVersion(value: string | null | undefined): TlsVersion | undefined {
+  return value && VALID_TLS_VERSIONS.includes(value as TlsVersion) ? (value as TlsVersion) : undefined;
+}
+
+/**
+ * Build TLS/Reality configuration from share-link parameters
+ * (sni, fp, alpn, allowInsecure, pbk, sid, spx; for TLS also minVersion,
+ * maxVersion, ech; fragment, recordFragment)
+ */
+export function buildTlsConfig(
+  params: URLSearchParams,
+  security: "tls" | "reality",
+  server: string,
+): { tls: TlsConfig } | { error: string } {
+  const tlsConfig: TlsConfig = {
+    enabled: true,
+  };
+
+  // Server name
+  const sni = params.get("sni") || params.get("serverName") || params.get("peer");
+  if (sni) {
+    tlsConfig.server_name = sni;
+  } else if (security === "tls") {
+    // Use server as default SNI for TLS
+    tlsConfig.server_name = server;
+  }
+
+  // Fingerprint (uTLS)
+  const fp = params.get("fp") || params.get("fingerprint");
+  if (fp) {
+    const fingerprint = fp as TlsFingerprint;
+    if (VALID_FINGERPRINTS.includes(fingerprint)) {
+      tlsConfig.utls = {
+        enabled: true,
+        fingerprint,
+      };
+    }
+  }
+
+  // ALPN
+  const alpn = params.get("alpn");
+  if (alpn) {
+    tlsConfig.alpn = alpn.split(",") as AlpnProtocol[];
+  }
+
+  // Reality specific
+  if (security === "reality") {
+    const pbk = params.get("pbk");
+    const sid = params.get("sid") || "";
+
+    if (!pbk) {
+      return { error: "Reality requires public key (pbk)" };
+    }
+
+    tlsConfig.reality = {
+      enabled: true,
+      public_key: pbk,
+      short_id: sid,
+    };
+
+    // Reality requires SNI
+    if (!tlsConfig.server_name) {
+      const spx = params.get("spx");
+      if (spx) {
+        // spx contains the SNI for reality
+        tlsConfig.server_name = spx;
+      }
+    }
+  }
+
+  // Allow insecure (for testing)
+  const allowInsecure = params.get("allowInsecure") || params.get("insecure");
+  if (allowInsecure === "1" || allowInsecure === "true") {
+    tlsConfig.insecure = true;
+  }
+
+  // TLS-only options, Reality fixes its own handshake
+  if (security === "tls") {
+    const minVersion = params.get("minVersion");
+    if (minVersion) {
+      tlsConfig.min_version = parseTlsVersion(minVersion);
+      if (!tlsConfig.min_version) return { error: `Invalid TLS version: ${minVersion}` };
+    }
+    const maxVersion = params.get("maxVersion");
+    if (maxVersion) {
+      tlsConfig.max_version = parseTlsVersion(maxVersion);
+      if (!tlsConfig.max_version) return { error: `Invalid TLS version: ${maxVersion}` };
+    }
+
+    const ech = params.get("ech");
+    if (ech) {
+      tlsConfig.ech = buildEchConfig(ech);
+    }
+  }
+
+  // ClientHello fragmentation
+  const fragment = params.get("fragment");
+  if (fragment && fragment !== "0" && fragment !== "false") {
+    tlsConfig.fragment = true;
+  }
+  const recordFragment = params.get("recordFragment");
+  if (recordFragment === "1" || recordFragment === "true") {
+    tlsConfig.record_fragment = true;
+  }
+
+  return { tls: tlsConfig };
+}
+
+/**
+ * Check a share-link transport type
+ * Returns an error message or null when sing-box can use it
+ */
+export function validateTransportType(type: string): string | null {
+  if (UNSUPPORTED_TRANSPORTS.includes(type as TransportType)) {
+    return `Transport "${type}" is not supported by sing-box`;
+  }
+
+  if (!VALID_TRANSPORTS.includes(type as TransportType)) {
+    return `Invalid transport type: ${type}`;
+  }
+
+  return null;
+}
+
+/**
+ * Build transport configuration based on type and share-link parameters
+ */
+export function buildTransport(type: TransportType, params: URLSearchParams): Transport | undefined {
+  switch (type) {
+    case "tcp": {
+      // Plain TCP unless it carries HTTP header obfuscation
+      if (params.get("headerType") !== "http") {
+        return undefined;
+      }
+
+      const transport: HttpTransport = { type: "http" };
+
+      const path = params.get("path");
+      if (path) {
+        transport.path = safeDecodeURIComponent(path).split(",")[0];
+      }
+
+      const host = params.get("host");
+      if (host) {
+        transport.host = host.split(",");
+      }
+
+      return transport;
+    }
+
+    case "ws": {
+      const transport: WsTransport = { type: "ws" };
+
+      const path = params.get("path");
+      if (path) {
+        transport.path = safeDecodeURIComponent(path);
+      }
+
+      // Headers other than Host come as a JSON object (written by the link exporter)
+      const headers = params.get("headers");
+      if (headers) {
+        try {
+          const parsed: unknown = JSON.parse(headers);
+          if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+            transport.headers = Object.fromEntries(
+              Object.entries(parsed).map(([key, value]) => [key, String(value)]),
+            );
+          }
+        } catch {
+          // Not JSON, ignore
+        }
+      }
+
+      const host = params.get("host");
+      if (host) {
+        transport.headers = { ...transport.headers, Host: host };
+      }
+
+      // Early data size, anything but a non-negative integer is ignored
+      const ed = params.get("ed");
+      if (ed && /^\d+$/.test(ed)) {
+        transport.max_early_data = parseInt(ed, 10);
+        // "eh" (NekoBox) names the header, XRay always uses Sec-WebSocket-Protocol
+        transport.early_data_header_name = params.get("eh") ?? "Sec-WebSocket-Protocol";
+      }
+
+      return transport;
+    }
+
+    case "grpc": {
+      const transport: GrpcTransport = { type: "grpc" };
+
+      const serviceName = params.get("serviceName") || params.get("service");
+      if (serviceName) {
+        transport.service_name = serviceName;
+      }
+
+      return transport;
+    }
+
+    case "http": {
+      const transport: HttpTransport = { type: "http" };
+
+      const path = params.get("path");
+      if (path) {
+        transport.path = safeDecodeURIComponent(path);
+      }
+
+      const host = params.get("host");
+      if (host) {
+        transport.host = host.split(",");
+      }
+
+      return transport;
+    }
+
+    case "httpupgrade": {
+      const transport: HttpUpgradeTransport = { type: "httpupgrade" };
+
+      const path = params.get("path");
+      if (path) {
+        transport.path = safeDecodeURIComponent(path);
+      }
+
+      const host = params.get("host");
+      if (host) {
+        transport.host = host;
+      }
+
+      return transport;
+    }
+
+    case "quic": {
+      return { type: "quic" };
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build multiplex and UDP packet encoding options from share-link parameters
+ *
+ * - mux: 1/true, or the protocol itself (smux, yamux, h2mux)
+ * - mux-max-connections, mux-min-streams, mux-max-streams
+ * - mux-padding: 1/true
+ * - mux-brutal-up, mux-brutal-down: TCP Brutal bandwidth in Mbps
+ * - packetEncoding: xudp, packetaddr
+ */
+export function buildMuxOptions(
+  params: URLSearchParams,
+): { multiplex?: MultiplexConfig; packet_encoding?: PacketEncoding } | { error: string } {
+  const result: { multiplex?: MultiplexConfig; packet_encoding?: PacketEncoding } = {};
+
+  const packetEncoding = params.get("packetEncoding");
+  if (packetEncoding && packetEncoding !== "none") {
+    if (!VALID_PACKET_ENCODINGS.includes(packetEncoding as PacketEncoding)) {
+      return { error: `Invalid packet encoding: ${packetEncoding}` };
+    }
+    result.packet_encoding = packetEncoding as PacketEncoding;
+  }
+
+  const mux = params.get("mux");
+  if (!mux || mux === "0" || mux === "false") {
+    return result;
+  }
+
+  const multiplex: MultiplexConfig = { enabled: true };
+  if (mux !== "1" && mux !== "true") {
+    if (!VALID_MULTIPLEX_PROTOCOLS.includes(mux as MultiplexProtocol)) {
+      return { error: `Invalid multiplex protocol: ${mux}` };
+    }
+    multiplex.protocol = mux as MultiplexProtocol;
+  }
+
+  const maxConnections = parseInt(params.get("mux-max-connections") || "", 10);
+  if (!isNaN(maxConnections) && maxConnections > 0) {
+    multiplex.max_connections = maxConnections;
+  }
+  const minStreams = parseInt(params.get("mux-min-streams") || "", 10);
+  if (!isNaN(minStreams) && minStreams > 0) {
+    multiplex.min_streams = minStreams;
+  }
+  const maxStreams = parseInt(params.get("mux-max-streams") || "", 10);
+  if (!isNaN(maxStreams) && maxStreams > 0) {
+    multiplex.max_streams = maxStreams;
+  }
+
+  const padding = params.get("mux-padding");
+  if (padding === "1" || padding === "true") {
+    multiplex.padding = true;
+  }
+
+  const brutalUp = parseInt(params.get("mux-brutal-up") || "", 10);
+  const brutalDown = parseInt(params.get("mux-brutal-down") || "", 10);
+  if (brutalUp > 0 && brutalDown > 0) {
+    multiplex.brutal = { enabled: true, up_mbps: brutalUp, down_mbps: brutalDown };
+  }
+
+  result.multiplex = multiplex;
+  return result;
+}
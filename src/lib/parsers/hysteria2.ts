@@ -0,0 +1,181 @@
+/**
+ * Hysteria2 link parser for sing-box outbound configuration
+ *
+ * Supported link format:
+ * hysteria2://auth@host:port/?sni=...&obfs=salamander&obfs-password=...#name
+ * hy2://auth@host:443,20000-30000/?...#name  (port hopping)
+ *
+ * Supported parameters:
+ * - sni: server name indication
+ * - insecure: skip certificate verification
+ * - alpn: ALPN protocols (comma-separated)
+ * - obfs, obfs-password: Salamander obfuscation
+ * - pinSHA256: certificate pin (only accepted together with insecure=1, then dropped with a warning)
+ * - mport: port hopping list, same syntax as the port part
+ * - upmbps, downmbps: bandwidth hints
+ */
+
+import type { Hysteria2Outbound, ParseResult, TlsConfig, AlpnProtocol } from "./types";
+import { parseFailure, parsePort, safeDecodeURIComponent } from "./common";
+
+/**
+ * Parse a port list like "443,20000-30000" into sing-box port notation.
+ * Returns the first port (for server_port) and ranges as "start:end".
+ */
+export function parsePortList(value: string): { port: number; ranges: string[] } | { error: string } {
+  const ranges: string[] = [];
+  let firstPort: number | null = null;
+
+  for (const part of value.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const [startText, endText] = part.split("-");
+    const start = parsePort(startText);
+    const end = endText === undefined ? start : parsePort(endText);
+
+    if (start === null || end === null || end < start) {
+      return { error: `Invalid port or port range: ${part}` };
+    }
+
+    firstPort ??= start;
+    ranges.push(`${start}:${end}`);
+  }
+
+  if (firstPort === null) {
+    return { error: "Missing port" };
+  }
+
+  return { port: firstPort, ranges };
+}
+
+/**
+ * Parse a single Hysteria2 link into sing-box outbound configuration
+ */
+export function parseHysteria2Link(link: string, lineNumber: number, defaultTag?: string): ParseResult {
+  const trimmedLink = link.trim();
+  const schemeMatch = trimmedLink.match(/^(hysteria2|hy2):\/\//i);
+
+  if (!schemeMatch) {
+    return parseFailure(link, lineNumber, "Link must start with hysteria2:// or hy2://");
+  }
+
+  // Split by # to get the name/tag
+  const [mainPart, fragment] = trimmedLink.slice(schemeMatch[0].length).split("#");
+  const tag = fragment ? safeDecodeURIComponent(fragment) : defaultTag || `proxy-p${lineNumber}`;
+
+  // Auth is optional in Hysteria2 links
+  const atIndex = mainPart.lastIndexOf("@");
+  const auth = atIndex === -1 ? "" : safeDecodeURIComponent(mainPart.slice(0, atIndex));
+
+  const [authority, queryString] = mainPart.slice(atIndex + 1).split("?");
+  const hostPorts = authority.replace(/\/$/, "");
+
+  // Split host from the port list, IPv6 hosts are bracketed
+  let server: string;
+  let portSpec: string;
+  if (hostPorts.startsWith("[")) {
+    const bracketEnd = hostPorts.indexOf("]");
+    if (bracketEnd === -1) {
+      return parseFailure(link, lineNumber, "Invalid IPv6 address format");
+    }
+    server = hostPorts.slice(1, bracketEnd);
+    portSpec = hostPorts.slice(bracketEnd + 1).replace(/^:/, "");
+  } else {
+    const colonIndex = hostPorts.indexOf(":");
+    server = colonIndex === -1 ? hostPorts : hostPorts.slice(0, colonIndex);
+    portSpec = colonIndex === -1 ? "" : hostPorts.slice(colonIndex + 1);
+  }
+
+  if (!server) {
+    return parseFailure(link, lineNumber, "Missing server address");
+  }
+
+  const params = new URLSearchParams(queryString || "");
+
+  // Hysteria2 defaults to port 443 when none is given
+  const ports = parsePortList(params.get("mport") || portSpec || "443");
+  if ("error" in ports) {
+    return parseFailure(link, lineNumber, ports.error);
+  }
+
+  // TLS is mandatory for Hysteria2
+  const tlsConfig: TlsConfig = {
+    enabled: true,
+    server_name: params.get("sni") || params.get("peer") || server,
+  };
+
+  const alpn = params.get("alpn");
+  if (alpn) {
+    tlsConfig.alpn = alpn.split(",") as AlpnProtocol[];
+  }
+
+  const insecure = params.get("insecure") || params.get("allowInsecure");
+  if (insecure === "1" || insecure === "true") {
+    tlsConfig.insecure = true;
+  }
+
+  // sing-box cannot pin a certificate by its SHA-256 fingerprint
+  // (certificate_public_key_sha256 hashes the public key, not the certificate)
+  const warnings: string[] = [];
+  if (params.get("pinSHA256")) {
+    if (!tlsConfig.insecure) {
+      return parseFailure(
+        link,
+        lineNumber,
+        "pinSHA256 certificate pinning is not supported by sing-box; add insecure=1 to trust the server certificate",
+      );
+    }
+    warnings.push("pinSHA256 is not supported by sing-box, the certificate is not pinned");
+  }
+
+  const outbound: Hysteria2Outbound = {
+    type: "hysteria2",
+    tag,
+    server,
+    server_port: ports.port,
+    tls: tlsConfig,
+  };
+
+  // Port hopping
+  if (ports.ranges.length > 1 || ports.ranges[0] !== `${ports.port}:${ports.port}`) {
+    outbound.server_ports = ports.ranges;
+  }
+
+  if (auth) {
+    outbound.password = auth;
+  }
+
+  // Obfuscation
+  const obfs = params.get("obfs");
+  if (obfs && obfs !== "none") {
+    if (obfs !== "salamander") {
+      return parseFailure(link, lineNumber, `Unsupported obfs type: ${obfs}`);
+    }
+
+    const obfsPassword = params.get("obfs-password");
+    if (!obfsPassword) {
+      return parseFailure(link, lineNumber, "Salamander obfs requires obfs-password");
+    }
+
+    outbound.obfs = {
+      type: "salamander",
+      password: obfsPassword,
+    };
+  }
+
+  // Bandwidth hints
+  const upMbps = parseInt(params.get("upmbps") || "", 10);
+  if (!isNaN(upMbps) && upMbps > 0) {
+    outbound.up_mbps = upMbps;
+  }
+  const downMbps = parseInt(params.get("downmbps") || "", 10);
+  if (!isNaN(downMbps) && downMbps > 0) {
+    outbound.down_mbps = downMbps;
+  }
+
+  return {
+    success: true,
+    outbound,
+    originalLink: link,
+    lineNumber,
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
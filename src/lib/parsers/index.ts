@@ -1,13 +1,22 @@
 /**
  * Proxy link parser module
  *
- * Currently supports VLESS protocol.
- * Designed for easy extension to support other protocols (VMess, Trojan, etc.)
+ * Supports VLESS, VMess, Trojan, Shadowsocks, Hysteria2 and TUIC v5 protocols,
+ * plus plain SOCKS and HTTP(S) proxy URLs.
+ * Each protocol lives in its own module and is dispatched from parseProxyLink.
  */
 
 import { parseVlessLink } from "./vless";
+import { parseVmessLink } from "./vmess";
+import { parseTrojanLink } from "./trojan";
+import { parseShadowsocksLink } from "./shadowsocks";
+import { parseHysteria2Link } from "./hysteria2";
+import { parseTuicLink } from "./tuic";
+import { parseSocksLink } from "./socks";
+import { parseHttpProxyLink } from "./http";
+import { expandSubscription } from "./subscription";
 import type {
-  VlessOutbound,
+  ProxyOutbound,
   ParseResult,
   BatchParseResult,
   ParseError,
@@ -16,6 +25,17 @@ import type {
 // Re-export types
 export type {
   VlessOutbound,
+  VmessOutbound,
+  TrojanOutbound,
+  ShadowsocksOutbound,
+  Hysteria2Outbound,
+  TuicOutbound,
+  SocksOutbound,
+  HttpOutbound,
+  ProxyOutbound,
+  SelectorOutbound,
+  UrlTestOutbound,
+  GroupOutbound,
   ParseResult,
   BatchParseResult,
   ParseError,
@@ -24,17 +44,53 @@ export type {
   WsTransport,
   GrpcTransport,
   HttpTransport,
+  HttpUpgradeTransport,
   QuicTransport,
+  MultiplexConfig,
+  MultiplexProtocol,
+  BrutalConfig,
+  PacketEncoding,
+  DirectOutbound,
+  BlockOutbound,
+  ServiceOutbound,
 } from "./types";
 
+export { expandSubscription } from "./subscription";
+
+export type { ClashParseResult } from "./clash";
+export { parseClashConfig } from "./clash";
+
+export type { SingboxParseResult } from "./singbox";
+export { parseSingboxConfig } from "./singbox";
+
 export type { AmneziaParseResult } from "./amnezia";
 export { parseAmneziaConfig } from "./amnezia";
 
-export type { AwgEndpoint, AwgPeer, AwgParseResult } from "./awg";
-export { parseAwgConfig, formatAwgEndpointJson } from "./awg";
+export type { AmneziaServer, AmneziaContainer, VpnLinkParseResult } from "./vpn";
+export { decodeVpnLink, convertAmneziaContainer, parseVpnLink } from "./vpn";
+
+export type { AmneziaBackupEntry, AmneziaBackupParseResult } from "./backup";
+export { parseAmneziaBackup } from "./backup";
+
+export type {
+  AwgEndpoint,
+  AwgPeer,
+  WireguardEndpoint,
+  WireguardPeer,
+  AwgParseResult,
+} from "./awg";
+export { parseAwgConfig, parseWireguardConfig, formatAwgEndpointJson } from "./awg";
 
 // Supported protocols
-type Protocol = "vless" | "vmess" | "trojan" | "ss" | "hy2" | "tuic";
+type Protocol =
+  | "vless"
+  | "vmess"
+  | "trojan"
+  | "ss"
+  | "hy2"
+  | "tuic"
+  | "socks"
+  | "http";
 
 /**
  * Detect protocol from link
@@ -49,6 +105,9 @@ function detectProtocol(link: string): Protocol | null {
   if (trimmed.startsWith("hy2://") || trimmed.startsWith("hysteria2://"))
     return "hy2";
   if (trimmed.startsWith("tuic://")) return "tuic";
+  if (/^socks(4a?|5h?)?:\/\//.test(trimmed)) return "socks";
+  if (trimmed.startsWith("http://") || trimmed.startsWith("https://"))
+    return "http";
 
   return null;
 }
@@ -76,18 +135,26 @@ export function parseProxyLink(
     case "vless":
       return parseVlessLink(link, lineNumber);
 
-    // Future protocol support
     case "vmess":
+      return parseVmessLink(link, lineNumber);
+
     case "trojan":
+      return parseTrojanLink(link, lineNumber);
+
     case "ss":
+      return parseShadowsocksLink(link, lineNumber);
+
     case "hy2":
+      return parseHysteria2Link(link, lineNumber);
+
     case "tuic":
-      return {
-        success: false,
-        error: `Protocol "${protocol}" is not yet supported`,
-        originalLink: link,
-        lineNumber,
-      };
+      return parseTuicLink(link, lineNumber);
+
+    case "socks":
+      return parseSocksLink(link, lineNumber);
+
+    case "http":
+      return parseHttpProxyLink(link, lineNumber);
 
     default:
       return {
@@ -101,14 +168,17 @@ export function parseProxyLink(
 
 /**
  * Parse multiple proxy links (one per line)
+ * Base64 subscription blobs are decoded first; line numbers refer to the decoded text
  * Returns BatchParseResult with all successful outbounds and errors
  */
 export function parseProxyLinks(text: string): BatchParseResult {
-  const lines = text.split("\n").filter((line) => line.trim());
+  const lines = expandSubscription(text).split("\n");
 
-  const outbounds: VlessOutbound[] = [];
+  const outbounds: ProxyOutbound[] = [];
   const errors: ParseError[] = [];
+  const warnings: ParseError[] = [];
   let proxyCounter = 1;
+  let totalLinks = 0;
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i].trim();
@@ -118,6 +188,7 @@ export function parseProxyLinks(text: string): BatchParseResult {
       continue;
     }
 
+    totalLinks++;
     const lineNumber = i + 1;
     const result = parseProxyLink(line, lineNumber);
 
@@ -128,6 +199,9 @@ export function parseProxyLinks(text: string): BatchParseResult {
       }
       outbounds.push(result.outbound);
       proxyCounter++;
+      for (const warning of result.warnings ?? []) {
+        warnings.push({ lineNumber, link: line.length > 50 ? line.slice(0, 50) + "..." : line, error: warning });
+      }
     } else {
       errors.push({
         lineNumber,
@@ -140,7 +214,8 @@ export function parseProxyLinks(text: string): BatchParseResult {
   return {
     outbounds,
     errors,
-    totalLinks: lines.length,
+    warnings,
+    totalLinks,
     successCount: outbounds.length,
     errorCount: errors.length,
   };
@@ -150,7 +225,7 @@ export function parseProxyLinks(text: string): BatchParseResult {
  * Format outbounds array as JSON string
  */
 export function formatOutboundsJson(
-  outbounds: VlessOutbound[],
+  outbounds: ProxyOutbound[],
   pretty: boolean = true,
 ): string {
   return JSON.stringify(outbounds, null, pretty ? 2 : 0);
@@ -0,0 +1,218 @@
+/**
+ * Shadowsocks link parser for sing-box outbound configuration
+ *
+ * Supported link formats:
+ * - SIP002:  ss://base64url(method:password)@host:port/?plugin=...#name
+ *            ss://method:password@host:port#name  (percent-encoded, used by SS-2022)
+ * - Legacy:  ss://base64(method:password@host:port)#name
+ *
+ * Supported plugins (plugin= parameter):
+ * - obfs-local (simple-obfs): obfs=http|tls;obfs-host=...
+ * - v2ray-plugin: mode=websocket;tls;host=...;path=...
+ */
+
+import type { ShadowsocksOutbound, ParseResult } from "./types";
+import {
+  decodeBase64,
+  decodeBase64Bytes,
+  parseFailure,
+  parseHostPort,
+  safeDecodeURIComponent,
+} from "./common";
+
+// Ciphers supported by sing-box
+const AEAD_METHODS = [
+  "none",
+  "aes-128-gcm",
+  "aes-192-gcm",
+  "aes-256-gcm",
+  "chacha20-ietf-poly1305",
+  "xchacha20-ietf-poly1305",
+];
+
+const STREAM_METHODS = [
+  "aes-128-ctr",
+  "aes-192-ctr",
+  "aes-256-ctr",
+  "aes-128-cfb",
+  "aes-192-cfb",
+  "aes-256-cfb",
+  "rc4-md5",
+  "chacha20-ietf",
+  "xchacha20",
+];
+
+// SS-2022 methods and their required key length in bytes
+const SS2022_KEY_LENGTHS: Record<string, number> = {
+  "2022-blake3-aes-128-gcm": 16,
+  "2022-blake3-aes-256-gcm": 32,
+  "2022-blake3-chacha20-poly1305": 32,
+};
+
+// Plugin names as they appear in links -> sing-box plugin names
+const PLUGIN_ALIASES: Record<string, string> = {
+  "obfs-local": "obfs-local",
+  "simple-obfs": "obfs-local",
+  "v2ray-plugin": "v2ray-plugin",
+};
+
+/**
+ * Validate SS-2022 password: base64 key(s) of the exact length the method needs.
+ * Multi-user servers use "serverKey:userKey", each part is checked.
+ */
+function validateSs2022Password(method: string, password: string): string | null {
+  const keyLength = SS2022_KEY_LENGTHS[method];
+
+  for (const key of password.split(":")) {
+    let bytes: Uint8Array;
+    try {
+      bytes = decodeBase64Bytes(key);
+    } catch {
+      return `${method} requires a base64 key`;
+    }
+    if (bytes.length !== keyLength) {
+      return `${method} requires a ${keyLength}-byte key, got ${bytes.length} bytes`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that sing-box supports the cipher and, for SS-2022, that the key fits it
+ * Returns an error message or null when the method/password pair is usable
+ */
+export function validateShadowsocksMethod(method: string, password: string): string | null {
+  if (method in SS2022_KEY_LENGTHS) {
+    return validateSs2022Password(method, password);
+  }
+
+  if (!AEAD_METHODS.includes(method) && !STREAM_METHODS.includes(method)) {
+    return `Unsupported cipher: ${method}`;
+  }
+
+  if (!password && method !== "none") {
+    return "Missing password";
+  }
+
+  return null;
+}
+
+/**
+ * Split "method:password" user info
+ */
+function splitUserInfo(userInfo: string): { method: string; password: string } | null {
+  const colonIndex = userInfo.indexOf(":");
+  if (colonIndex === -1) return null;
+
+  return {
+    method: userInfo.slice(0, colonIndex).toLowerCase(),
+    password: userInfo.slice(colonIndex + 1),
+  };
+}
+
+/**
+ * Parse a single Shadowsocks link into sing-box outbound configuration
+ */
+export function parseShadowsocksLink(link: string, lineNumber: number, defaultTag?: string): ParseResult {
+  const trimmedLink = link.trim();
+
+  if (!trimmedLink.toLowerCase().startsWith("ss://")) {
+    return parseFailure(link, lineNumber, "Link must start with ss://");
+  }
+
+  // Split by # to get the name/tag
+  const [mainPart, fragment] = trimmedLink.slice(5).split("#");
+  const tag = fragment ? safeDecodeURIComponent(fragment) : defaultTag || `proxy-p${lineNumber}`;
+
+  let userInfo: string;
+  let hostPort: string;
+  let queryString: string | undefined;
+
+  const atIndex = mainPart.lastIndexOf("@");
+  if (atIndex !== -1) {
+    // SIP002: user info is base64url or percent-encoded "method:password"
+    const rawUserInfo = safeDecodeURIComponent(mainPart.slice(0, atIndex));
+    [hostPort, queryString] = mainPart.slice(atIndex + 1).split("?");
+
+    if (rawUserInfo.includes(":")) {
+      userInfo = rawUserInfo;
+    } else {
+      try {
+        userInfo = decodeBase64(rawUserInfo);
+      } catch (e) {
+        return parseFailure(link, lineNumber, `Invalid base64 user info: ${(e as Error).message}`);
+      }
+    }
+  } else {
+    // Legacy: the whole "method:password@host:port" is base64
+    let payload: string;
+    [payload, queryString] = mainPart.split("?");
+
+    let decoded: string;
+    try {
+      decoded = decodeBase64(payload.replace(/\/$/, ""));
+    } catch (e) {
+      return parseFailure(link, lineNumber, `Invalid base64 payload: ${(e as Error).message}`);
+    }
+
+    const decodedAt = decoded.lastIndexOf("@");
+    if (decodedAt === -1) {
+      return parseFailure(link, lineNumber, "Invalid format: missing @ separator");
+    }
+    userInfo = decoded.slice(0, decodedAt);
+    hostPort = decoded.slice(decodedAt + 1);
+  }
+
+  const credentials = splitUserInfo(userInfo);
+  if (!credentials) {
+    return parseFailure(link, lineNumber, "Invalid user info: expected method:password");
+  }
+
+  const { method, password } = credentials;
+
+  const methodError = validateShadowsocksMethod(method, password);
+  if (methodError) {
+    return parseFailure(link, lineNumber, methodError);
+  }
+
+  const address = parseHostPort(hostPort.replace(/\/$/, ""));
+  if ("error" in address) {
+    return parseFailure(link, lineNumber, address.error);
+  }
+
+  const outbound: ShadowsocksOutbound = {
+    type: "shadowsocks",
+    tag,
+    server: address.server,
+    server_port: address.port,
+    method,
+    password,
+  };
+
+  // Plugin: "name;opt1=v1;opt2=v2"
+  const params = new URLSearchParams(queryString || "");
+  const plugin = params.get("plugin");
+  if (plugin) {
+    const separator = plugin.indexOf(";");
+    const pluginName = (separator === -1 ? plugin : plugin.slice(0, separator)).trim();
+    const pluginOpts = separator === -1 ? "" : plugin.slice(separator + 1);
+
+    const singboxPlugin = PLUGIN_ALIASES[pluginName];
+    if (!singboxPlugin) {
+      return parseFailure(link, lineNumber, `Unsupported plugin: ${pluginName}`);
+    }
+
+    outbound.plugin = singboxPlugin;
+    if (pluginOpts) {
+      outbound.plugin_opts = pluginOpts;
+    }
+  }
+
+  return {
+    success: true,
+    outbound,
+    originalLink: link,
+    lineNumber,
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * sing-box config.json parser
+ * Loads an existing sing-box config back into the editor state
+ *
+ * - Proxy outbounds and AWG/WireGuard endpoints are imported as servers
+ * - selector/urltest outbounds become groups, except "proxy"/"auto" which
+ *   buildConfig regenerates
+ * - dns/inbounds are matched against presets; anything else is kept as
+ *   custom blocks so the rest of the config survives re-export
+ */
+
+import { dnsPresets, defaultDnsPreset } from "@/templates/dns";
+import { inboundPresets, defaultInboundPreset } from "@/templates/inbounds";
+import type { DnsPreset, DnsConfig } from "@/templates/dns";
+import type { InboundPreset, InboundConfig } from "@/templates/inbounds";
+import {
+  defaultLog,
+  defaultExperimental,
+  defaultRoute,
+  systemOutboundTags,
+} from "@/lib/builder";
+import type {
+  Outbound,
+  EndpointConfig,
+  CustomSections,
+  DnsSelection,
+  InboundSelection,
+} from "@/lib/builder";
+
+export interface SingboxParseResult {
+  success: boolean;
+  outbounds: Outbound[];
+  endpoints: EndpointConfig[];
+  groups: Outbound[];
+  dnsPreset: DnsSelection;
+  inboundPreset: InboundSelection;
+  custom: CustomSections;
+  errors: string[];
+}
+
+// Outbound types that are not proxy servers
+const GROUP_TYPES = ["selector", "urltest"];
+const SERVICE_TYPES = ["direct", "block", "dns"];
+
+// Endpoint types the editor understands
+const ENDPOINT_TYPES = ["awg", "wireguard"];
+
+// Top-level sections handled explicitly
+const KNOWN_SECTIONS = ["log", "experimental", "dns", "inbounds", "outbounds", "endpoints", "route"];
+
+/**
+ * Compare two JSON values ignoring object key order
+ */
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => jsonEqual(item, b[i]));
+  }
+
+  const aObj = a as Record<string, unknown>;
+  const bObj = b as Record<string, unknown>;
+  const aKeys = Object.keys(aObj);
+  const bKeys = Object.keys(bObj);
+
+  return aKeys.length === bKeys.length && aKeys.every((key) => key in bObj && jsonEqual(aObj[key], bObj[key]));
+}
+
+/**
+ * Parse sing-box config.json and split it into editor state
+ */
+export function parseSingboxConfig(jsonText: string): SingboxParseResult {
+  const errors: string[] = [];
+  const result: SingboxParseResult = {
+    success: false,
+    outbounds: [],
+    endpoints: [],
+    groups: [],
+    dnsPreset: "custom",
+    inboundPreset: "custom",
+    custom: {},
+    errors,
+  };
+
+  // Parse JSON
+  let config: Record<string, unknown>;
+  try {
+    config = JSON.parse(jsonText);
+  } catch (e) {
+    errors.push(`Invalid JSON: ${(e as Error).message}`);
+    return result;
+  }
+
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    errors.push("Config must be a JSON object");
+    return result;
+  }
+
+  const outbounds = Array.isArray(config.outbounds) ? (config.outbounds as Outbound[]) : [];
+  const endpoints = Array.isArray(config.endpoints) ? (config.endpoints as Outbound[]) : [];
+
+  if (outbounds.length === 0 && endpoints.length === 0) {
+    errors.push("No outbounds or endpoints found in config");
+    return result;
+  }
+
+  // Outbounds: servers, groups and service outbounds
+  const serviceOutbounds: Outbound[] = [];
+  for (let i = 0; i < outbounds.length; i++) {
+    const outbound = outbounds[i];
+
+    if (!outbound || typeof outbound.type !== "string" || typeof outbound.tag !== "string") {
+      errors.push(`Outbound ${i + 1}: missing type or tag, skipping`);
+      continue;
+    }
+
+    if (GROUP_TYPES.includes(outbound.type)) {
+      // buildConfig regenerates its own proxy/auto groups
+      if (!systemOutboundTags.includes(outbound.tag)) {
+        result.groups.push(outbound);
+      }
+    } else if (SERVICE_TYPES.includes(outbound.type)) {
+      if (!systemOutboundTags.includes(outbound.tag)) {
+        serviceOutbounds.push(outbound);
+      }
+    } else {
+      result.outbounds.push(outbound);
+    }
+  }
+
+  // Endpoints
+  for (let i = 0; i < endpoints.length; i++) {
+    const endpoint = endpoints[i];
+
+    if (!endpoint || !ENDPOINT_TYPES.includes(endpoint.type)) {
+      errors.push(`Endpoint ${i + 1}: type "${endpoint?.type}" is not supported, skipping`);
+      continue;
+    }
+
+    result.endpoints.push(endpoint as unknown as EndpointConfig);
+  }
+
+  // Drop dangling members from imported groups; "proxy" would nest the
+  // main selector into itself, "auto"/"direct" are regenerated by buildConfig
+  const serverTags = new Set([
+    ...result.outbounds.map((o) => o.tag),
+    ...result.endpoints.map((ep) => ep.tag),
+    ...result.groups.map((g) => g.tag),
+    ...serviceOutbounds.map((o) => o.tag),
+    "auto",
+    "direct",
+  ]);
+  for (const group of result.groups) {
+    if (Array.isArray(group.outbounds)) {
+      group.outbounds = (group.outbounds as string[]).filter((tag) => serverTags.has(tag));
+    }
+  }
+
+  if (serviceOutbounds.length > 0) {
+    result.custom.outbounds = serviceOutbounds;
+  }
+
+  // DNS: preset if equivalent, otherwise custom block
+  if (config.dns) {
+    const preset = (Object.keys(dnsPresets) as DnsPreset[]).find((key) =>
+      jsonEqual(dnsPresets[key].config, config.dns),
+    );
+    if (preset) {
+      result.dnsPreset = preset;
+    } else {
+      result.custom.dns = config.dns as DnsConfig;
+    }
+  } else {
+    errors.push("No dns section found, using a preset");
+    result.dnsPreset = defaultDnsPreset;
+  }
+
+  // Inbounds: preset if equivalent, otherwise custom block
+  if (Array.isArray(config.inbounds) && config.inbounds.length > 0) {
+    const preset = (Object.keys(inboundPresets) as InboundPreset[]).find((key) =>
+      jsonEqual(inboundPresets[key].config, config.inbounds),
+    );
+    if (preset) {
+      result.inboundPreset = preset;
+    } else {
+      result.custom.inbounds = config.inbounds as InboundConfig[];
+    }
+  } else {
+    errors.push("No inbounds found, using a preset");
+    result.inboundPreset = defaultInboundPreset;
+  }
+
+  // Remaining sections are kept only when they differ from the builder defaults
+  if (config.log && !jsonEqual(config.log, defaultLog)) {
+    result.custom.log = config.log as Record<string, unknown>;
+  }
+  if (config.experimental && !jsonEqual(config.experimental, defaultExperimental)) {
+    result.custom.experimental = config.experimental as Record<string, unknown>;
+  }
+  if (config.route && !jsonEqual(config.route, defaultRoute)) {
+    result.custom.route = config.route as Record<string, unknown>;
+  }
+
+  const extra = Object.fromEntries(Object.entries(config).filter(([key]) => !KNOWN_SECTIONS.includes(key)));
+  if (Object.keys(extra).length > 0) {
+    result.custom.extra = extra;
+  }
+
+  result.success = result.outbounds.length > 0 || result.endpoints.length > 0;
+  if (!result.success) {
+    errors.push("No proxy outbounds or endpoints found in config");
+  }
+
+  return result;
+}
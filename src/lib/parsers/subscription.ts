@@ -0,0 +1,63 @@
+/**
+ * Subscription blob decoding
+ *
+ * Providers usually serve subscriptions as one base64 (or unpadded base64url)
+ * blob that decodes to newline-separated links. Blobs may also be pasted
+ * next to plain links, one blob per line.
+ */
+
+import { decodeBase64 } from "./common";
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/_-]+=*$/;
+
+// Shortest blob worth decoding: "ss://" plus a host is already longer
+const MIN_BLOB_LENGTH = 16;
+
+/**
+ * Try to decode a base64 blob into link text
+ * Returns null if the value is not base64 or does not contain links
+ */
+function decodeBlob(value: string): string | null {
+  if (value.length < MIN_BLOB_LENGTH || !BASE64_PATTERN.test(value)) {
+    return null;
+  }
+
+  let decoded: string;
+  try {
+    decoded = decodeBase64(value);
+  } catch {
+    return null;
+  }
+
+  if (!decoded.includes("://")) {
+    return null;
+  }
+
+  return decoded.replace(/^\ufeff/, "").replace(/\r\n?/g, "\n").trim();
+}
+
+/**
+ * Expand base64 subscription blobs into plain link lines
+ * Plain lines are kept as-is; the result is the text line numbers refer to
+ */
+export function expandSubscription(text: string): string {
+  const normalized = text.replace(/^\ufeff/, "").replace(/\r\n?/g, "\n");
+
+  // Whole input is a single blob, possibly wrapped over several lines
+  if (!normalized.includes("://")) {
+    const decoded = decodeBlob(normalized.replace(/\s+/g, ""));
+    if (decoded !== null) {
+      return decoded;
+    }
+  }
+
+  // Blobs mixed with plain lines
+  return normalized
+    .split("\n")
+    .map((line) => {
+      const trimmed = line.trim();
+      if (trimmed.includes("://")) return line;
+      return decodeBlob(trimmed) ?? line;
+    })
+    .join("\n");
+}
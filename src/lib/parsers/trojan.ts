@@ -0,0 +1,117 @@
+/**
+ * Trojan link parser for sing-box outbound configuration
+ *
+ * Supported link format:
+ * trojan://password@host:port?security=tls&type=transport&...#name
+ *
+ * Supported parameters:
+ * - security: tls (default), reality, none
+ * - type: tcp, ws, grpc, http, quic, httpupgrade (xhttp/splithttp are rejected)
+ * - headerType: http (HTTP header obfuscation over tcp)
+ * - sni / peer: server name indication
+ * - fp: TLS fingerprint
+ * - alpn: ALPN protocols (comma-separated)
+ * - allowInsecure: skip certificate verification
+ * - pbk, sid: Reality public key and short ID
+ * - path: WebSocket/HTTP path
+ * - host: WebSocket/HTTP host header
+ * - serviceName: gRPC service name
+ * - mux, mux-*: sing-box multiplex (see buildMuxOptions)
+ */
+
+import type { TrojanOutbound, ParseResult, SecurityType, TransportType } from "./types";
+import {
+  buildMuxOptions,
+  buildTlsConfig,
+  buildTransport,
+  validateTransportType,
+  parseFailure,
+  parseHostPort,
+  safeDecodeURIComponent,
+} from "./common";
+
+const VALID_SECURITY: SecurityType[] = ["none", "tls", "reality"];
+
+/**
+ * Parse a single Trojan link into sing-box outbound configuration
+ */
+export function parseTrojanLink(link: string, lineNumber: number, defaultTag?: string): ParseResult {
+  const trimmedLink = link.trim();
+
+  if (!trimmedLink.toLowerCase().startsWith("trojan://")) {
+    return parseFailure(link, lineNumber, "Link must start with trojan://");
+  }
+
+  // Split by # to get the name/tag
+  const [mainPart, fragment] = trimmedLink.slice(9).split("#");
+  const tag = fragment ? safeDecodeURIComponent(fragment) : defaultTag || `proxy-p${lineNumber}`;
+
+  // Split by @ to get password and rest
+  const atIndex = mainPart.lastIndexOf("@");
+  if (atIndex === -1) {
+    return parseFailure(link, lineNumber, "Invalid format: missing @ separator");
+  }
+
+  const password = safeDecodeURIComponent(mainPart.slice(0, atIndex));
+  if (!password) {
+    return parseFailure(link, lineNumber, "Missing password");
+  }
+
+  const [hostPort, queryString] = mainPart.slice(atIndex + 1).split("?");
+  const address = parseHostPort(hostPort.replace(/\/$/, ""));
+  if ("error" in address) {
+    return parseFailure(link, lineNumber, address.error);
+  }
+
+  const params = new URLSearchParams(queryString || "");
+
+  const outbound: TrojanOutbound = {
+    type: "trojan",
+    tag,
+    server: address.server,
+    server_port: address.port,
+    password,
+  };
+
+  // Trojan runs over TLS unless explicitly disabled
+  const security = (params.get("security") || "tls") as SecurityType;
+  if (!VALID_SECURITY.includes(security)) {
+    return parseFailure(link, lineNumber, `Invalid security type: ${security}`);
+  }
+
+  if (security === "tls" || security === "reality") {
+    const tlsResult = buildTlsConfig(params, security, address.server);
+    if ("error" in tlsResult) {
+      return parseFailure(link, lineNumber, tlsResult.error);
+    }
+    outbound.tls = tlsResult.tls;
+  }
+
+  // Transport
+  const transportType = (params.get("type") || "tcp") as TransportType;
+  const transportError = validateTransportType(transportType);
+  if (transportError) {
+    return parseFailure(link, lineNumber, transportError);
+  }
+
+  const transport = buildTransport(transportType, params);
+  if (transport) {
+    outbound.transport = transport;
+  }
+
+  // Multiplex (packet encoding is VLESS/VMess only)
+  const muxResult = buildMuxOptions(params);
+  if ("error" in muxResult) {
+    return parseFailure(link, lineNumber, muxResult.error);
+  }
+  if (muxResult.multiplex) {
+    outbound.multiplex = muxResult.multiplex;
+  }
+
+  return {
+    success: true,
+    outbound,
+    originalLink: link,
+    lineNumber,
+  };
+}
@@ -1,10 +1,18 @@
 /**
- * TypeScript types for sing-box VLESS outbound configuration
- * Based on sing-box documentation: https://sing-box.sagernet.org/configuration/outbound/vless/
+ * TypeScript types for sing-box proxy outbound configuration
+ * Based on sing-box documentation: https://sing-box.sagernet.org/configuration/outbound/
  */
 
 // Transport types
-export type TransportType = "tcp" | "ws" | "grpc" | "http" | "quic";
+export type TransportType =
+  | "tcp"
+  | "ws"
+  | "grpc"
+  | "http"
+  | "quic"
+  | "httpupgrade"
+  | "xhttp"
+  | "splithttp";
 
 // Security types
 export type SecurityType = "none" | "tls" | "reality";
@@ -54,6 +62,14 @@ export interface HttpTransport {
   ping_timeout?: string;
 }
 
+// HTTPUpgrade transport configuration
+export interface HttpUpgradeTransport {
+  type: "httpupgrade";
+  host?: string;
+  path?: string;
+  headers?: Record<string, string>;
+}
+
 // QUIC transport configuration
 export interface QuicTransport {
   type: "quic";
@@ -64,12 +80,37 @@ export interface TcpTransport {
   type: "tcp";
 }
 
+// Multiplex protocols
+export type MultiplexProtocol = "smux" | "yamux" | "h2mux";
+
+// UDP packet encoding for VLESS/VMess
+export type PacketEncoding = "xudp" | "packetaddr";
+
+// TCP Brutal congestion control for multiplex
+export interface BrutalConfig {
+  enabled: boolean;
+  up_mbps: number;
+  down_mbps: number;
+}
+
+// Multiplex configuration
+export interface MultiplexConfig {
+  enabled: boolean;
+  protocol?: MultiplexProtocol;
+  max_connections?: number;
+  min_streams?: number;
+  max_streams?: number;
+  padding?: boolean;
+  brutal?: BrutalConfig;
+}
+
 // Union type for all transports
 export type Transport =
   | TcpTransport
   | WsTransport
   | GrpcTransport
   | HttpTransport
+  | HttpUpgradeTransport
   | QuicTransport;
 
 // uTLS configuration
@@ -85,6 +126,16 @@ export interface RealityConfig {
   short_id?: string;
 }
 
+// TLS protocol versions
+export type TlsVersion = "1.0" | "1.1" | "1.2" | "1.3";
+
+// ECH configuration, without config sing-box queries the HTTPS DNS record
+export interface EchConfig {
+  enabled: boolean;
+  config?: string[];
+  query_server_name?: string;
+}
+
 // TLS configuration
 export interface TlsConfig {
   enabled: boolean;
@@ -93,6 +144,15 @@ export interface TlsConfig {
   alpn?: AlpnProtocol[];
   utls?: UtlsConfig;
   reality?: RealityConfig;
+  min_version?: TlsVersion;
+  max_version?: TlsVersion;
+  ech?: EchConfig;
+  // Split the ClientHello into TCP segments / TLS records (anti-DPI)
+  fragment?: boolean;
+  fragment_fallback_delay?: string;
+  record_fragment?: boolean;
+  // Base64 SHA-256 of the server certificate public key
+  certificate_public_key_sha256?: string[];
 }
 
 // VLESS outbound configuration for sing-box
@@ -105,21 +165,171 @@ export interface VlessOutbound {
   flow?: string;
   tls?: TlsConfig;
   transport?: Transport;
+  multiplex?: MultiplexConfig;
+  packet_encoding?: PacketEncoding;
 }
 
+// VMess outbound configuration for sing-box
+export interface VmessOutbound {
+  type: "vmess";
+  tag: string;
+  server: string;
+  server_port: number;
+  uuid: string;
+  security?: string;
+  alter_id?: number;
+  tls?: TlsConfig;
+  transport?: Transport;
+  multiplex?: MultiplexConfig;
+  packet_encoding?: PacketEncoding;
+}
+
+// Trojan outbound configuration for sing-box
+export interface TrojanOutbound {
+  type: "trojan";
+  tag: string;
+  server: string;
+  server_port: number;
+  password: string;
+  tls?: TlsConfig;
+  transport?: Transport;
+  multiplex?: MultiplexConfig;
+}
+
+// Shadowsocks outbound configuration for sing-box
+export interface ShadowsocksOutbound {
+  type: "shadowsocks";
+  tag: string;
+  server: string;
+  server_port: number;
+  method: string;
+  password: string;
+  plugin?: string;
+  plugin_opts?: string;
+  multiplex?: MultiplexConfig;
+}
+
+// Hysteria2 obfuscation
+export interface Hysteria2Obfs {
+  type: "salamander";
+  password: string;
+}
+
+// Hysteria2 outbound configuration for sing-box
+export interface Hysteria2Outbound {
+  type: "hysteria2";
+  tag: string;
+  server: string;
+  server_port: number;
+  server_ports?: string[];
+  up_mbps?: number;
+  down_mbps?: number;
+  obfs?: Hysteria2Obfs;
+  password?: string;
+  tls: TlsConfig;
+}
+
+// TUIC v5 outbound configuration for sing-box
+export interface TuicOutbound {
+  type: "tuic";
+  tag: string;
+  server: string;
+  server_port: number;
+  uuid: string;
+  password?: string;
+  congestion_control?: "cubic" | "new_reno" | "bbr";
+  udp_relay_mode?: "native" | "quic";
+  zero_rtt_handshake?: boolean;
+  heartbeat?: string;
+  tls: TlsConfig;
+}
+
+// SOCKS outbound configuration for sing-box
+export interface SocksOutbound {
+  type: "socks";
+  tag: string;
+  server: string;
+  server_port: number;
+  version?: "4" | "4a" | "5";
+  username?: string;
+  password?: string;
+}
+
+// HTTP proxy outbound configuration for sing-box
+export interface HttpOutbound {
+  type: "http";
+  tag: string;
+  server: string;
+  server_port: number;
+  username?: string;
+  password?: string;
+  path?: string;
+  tls?: TlsConfig;
+}
+
+// Any outbound a share link can produce
+export type ProxyOutbound =
+  | VlessOutbound
+  | VmessOutbound
+  | TrojanOutbound
+  | ShadowsocksOutbound
+  | Hysteria2Outbound
+  | TuicOutbound
+  | SocksOutbound
+  | HttpOutbound;
+
+// Direct outbound configuration for sing-box
+export interface DirectOutbound {
+  type: "direct";
+  tag: string;
+}
+
+// Block outbound configuration for sing-box
+export interface BlockOutbound {
+  type: "block";
+  tag: string;
+}
+
+// Service outbounds imported from client configs (not proxy servers)
+export type ServiceOutbound = DirectOutbound | BlockOutbound;
+
+// Selector group outbound configuration for sing-box
+export interface SelectorOutbound {
+  type: "selector";
+  tag: string;
+  outbounds: string[];
+  default?: string;
+}
+
+// URLTest group outbound configuration for sing-box
+export interface UrlTestOutbound {
+  type: "urltest";
+  tag: string;
+  outbounds: string[];
+  url?: string;
+  interval?: string;
+  tolerance?: number;
+}
+
+// Group outbounds imported from client configs
+export type GroupOutbound = SelectorOutbound | UrlTestOutbound;
+
 // Parser result with potential errors
 export interface ParseResult {
   success: boolean;
-  outbound?: VlessOutbound;
+  outbound?: ProxyOutbound;
   error?: string;
+  // Parsed, but some parameters were dropped
+  warnings?: string[];
   originalLink: string;
   lineNumber: number;
 }
 
 // Batch parse result
 export interface BatchParseResult {
-  outbounds: VlessOutbound[];
+  outbounds: ProxyOutbound[];
   errors: ParseError[];
+  warnings: ParseError[];
   totalLinks: number;
   successCount: number;
   errorCount: number;
@@ -5,7 +5,8 @@
  * vless://uuid@host:port?type=transport&security=tls|reality&...#name
  *
  * Supported parameters:
- * - type: tcp, ws, grpc, http, quic
+ * - type: tcp, ws, grpc, http, quic, httpupgrade (xhttp/splithttp are rejected)
+ * - headerType: http (HTTP header obfuscation over tcp)
  * - security: none, tls, reality
  * - flow: xtls-rprx-vision
  * - sni: server name indication
@@ -13,32 +14,26 @@
  * - alpn: ALPN protocols (comma-separated)
  * - pbk: Reality public key
  * - sid: Reality short ID
- * - path: WebSocket/HTTP path
- * - host: WebSocket/HTTP host header
+ * - path: WebSocket/HTTP/HTTPUpgrade path
+ * - host: WebSocket/HTTP/HTTPUpgrade host header
  * - serviceName: gRPC service name
+ * - packetEncoding: xudp, packetaddr
+ * - mux, mux-*: sing-box multiplex (see buildMuxOptions)
  */
 
 import type {
   VlessOutbound,
+  ProxyOutbound,
   ParseResult,
   BatchParseResult,
-  TlsConfig,
-  Transport,
-  WsTransport,
-  GrpcTransport,
-  HttpTransport,
-  TlsFingerprint,
-  AlpnProtocol,
   SecurityType,
   TransportType,
 } from "./types";
+import { buildMuxOptions, buildTlsConfig, buildTransport, validateTransportType } from "./common";
+import { expandSubscription } from "./subscription";
 
 // Valid values for validation
-const VALID_TRANSPORTS: TransportType[] = ["tcp", "ws", "grpc", "http", "quic"];
 const VALID_SECURITY: SecurityType[] = ["none", "tls", "reality"];
-const VALID_FINGERPRINTS: TlsFingerprint[] = [
-  "chrome", "firefox", "edge", "safari", "360", "qq", "ios", "android", "random", "randomized"
-];
 
 /**
  * Parse a single VLESS link into sing-box outbound configuration
@@ -189,94 +184,47 @@ export function parseVlessLink(link: string, lineNumber: number, defaultTag?: st
     }
 
     if (security === "tls" || security === "reality") {
-      const tlsConfig: TlsConfig = {
-        enabled: true,
-      };
-
-      // Server name
-      const sni = params.get("sni") || params.get("serverName");
-      if (sni) {
-        tlsConfig.server_name = sni;
-      } else if (security === "tls") {
-        // Use server as default SNI for TLS
-        tlsConfig.server_name = server;
-      }
-
-      // Fingerprint (uTLS)
-      const fp = params.get("fp") || params.get("fingerprint");
-      if (fp) {
-        const fingerprint = fp as TlsFingerprint;
-        if (VALID_FINGERPRINTS.includes(fingerprint)) {
-          tlsConfig.utls = {
-            enabled: true,
-            fingerprint,
-          };
-        }
-      }
-
-      // ALPN
-      const alpn = params.get("alpn");
-      if (alpn) {
-        tlsConfig.alpn = alpn.split(",") as AlpnProtocol[];
-      }
-
-      // Reality specific
-      if (security === "reality") {
-        const pbk = params.get("pbk");
-        const sid = params.get("sid") || "";
-
-        if (!pbk) {
-          return {
-            success: false,
-            error: "Reality requires public key (pbk)",
-            originalLink: link,
-            lineNumber,
-          };
-        }
-
-        tlsConfig.reality = {
-          enabled: true,
-          public_key: pbk,
-          short_id: sid,
+      const tlsResult = buildTlsConfig(params, security, server);
+      if ("error" in tlsResult) {
+        return {
+          success: false,
+          error: tlsResult.error,
+          originalLink: link,
+          lineNumber,
         };
-
-        // Reality requires SNI
-        if (!tlsConfig.server_name) {
-          const spx = params.get("spx");
-          if (spx) {
-            // spx contains the SNI for reality
-            tlsConfig.server_name = spx;
-          }
-        }
-      }
-
-      // Allow insecure (for testing)
-      const allowInsecure = params.get("allowInsecure");
-      if (allowInsecure === "1" || allowInsecure === "true") {
-        tlsConfig.insecure = true;
       }
-
-      outbound.tls = tlsConfig;
+      outbound.tls = tlsResult.tls;
     }
 
     // Parse transport
     const transportType = (params.get("type") || "tcp") as TransportType;
-    if (!VALID_TRANSPORTS.includes(transportType)) {
+    const transportError = validateTransportType(transportType);
+    if (transportError) {
       return {
         success: false,
-        error: `Invalid transport type: ${transportType}`,
+        error: transportError,
         originalLink: link,
         lineNumber,
       };
     }
 
-    if (transportType !== "tcp") {
-      const transport = buildTransport(transportType, params);
-      if (transport) {
-        outbound.transport = transport;
-      }
+    const transport = buildTransport(transportType, params);
+    if (transport) {
+      outbound.transport = transport;
     }
 
+    // Multiplex and UDP packet encoding
+    const muxResult = buildMuxOptions(params);
+    if ("error" in muxResult) {
+      return {
+        success: false,
+        error: muxResult.error,
+        originalLink: link,
+        lineNumber,
+      };
+    }
+    Object.assign(outbound, muxResult);
+
     return {
       success: true,
       outbound,
@@ -293,75 +241,13 @@ export function parseVlessLink(link: string, lineNumber: number, defaultTag?: st
   }
 }
 
-/**
- * Build transport configuration based on type and parameters
- */
-function buildTransport(type: TransportType, params: URLSearchParams): Transport | undefined {
-  switch (type) {
-    case "ws": {
-      const transport: WsTransport = { type: "ws" };
-
-      const path = params.get("path");
-      if (path) {
-        transport.path = decodeURIComponent(path);
-      }
-
-      const host = params.get("host");
-      if (host) {
-        transport.headers = { Host: host };
-      }
-
-      const ed = params.get("ed");
-      if (ed) {
-        transport.max_early_data = parseInt(ed, 10);
-        transport.early_data_header_name = "Sec-WebSocket-Protocol";
-      }
-
-      return transport;
-    }
-
-    case "grpc": {
-      const transport: GrpcTransport = { type: "grpc" };
-
-      const serviceName = params.get("serviceName") || params.get("service");
-      if (serviceName) {
-        transport.service_name = serviceName;
-      }
-
-      return transport;
-    }
-
-    case "http": {
-      const transport: HttpTransport = { type: "http" };
-
-      const path = params.get("path");
-      if (path) {
-        transport.path = decodeURIComponent(path);
-      }
-
-      const host = params.get("host");
-      if (host) {
-        transport.host = host.split(",");
-      }
-
-      return transport;
-    }
-
-    case "quic": {
-      return { type: "quic" };
-    }
-
-    default:
-      return undefined;
-  }
-}
-
 /**
  * Parse multiple VLESS links (batch processing)
+ * Base64 subscription blobs are decoded first; line numbers refer to the decoded text
  */
 export function parseVlessLinks(input: string): BatchParseResult {
-  const lines = input.split("\n");
-  const outbounds: VlessOutbound[] = [];
+  const lines = expandSubscription(input).split("\n");
+  const outbounds: ProxyOutbound[] = [];
   const errors: { lineNumber: number; link: string; error: string }[] = [];
   let lineNumber = 0;
 
@@ -395,6 +281,7 @@ export function parseVlessLinks(input: string): BatchParseResult {
   return {
     outbounds,
     errors,
+    warnings: [],
     totalLinks: outbounds.length + errors.length,
     successCount: outbounds.length,
     errorCount: errors.length,
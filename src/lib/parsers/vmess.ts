@@ -0,0 +1,190 @@
+/**
+ * VMess link parser for sing-box outbound configuration
+ *
+ * Supported link format (v2rayN):
+ * vmess://base64({"v":"2","ps":"name","add":"host","port":"443","id":"uuid",...})
+ *
+ * Supported JSON fields:
+ * - ps: outbound name
+ * - add, port: server address and port
+ * - id: user UUID
+ * - aid: alter ID
+ * - scy: cipher (auto, aes-128-gcm, chacha20-poly1305, none, zero)
+ * - net: tcp, ws, grpc, h2/http, quic, httpupgrade
+ * - type: "http" for HTTP header obfuscation over tcp
+ * - tls: "tls" to enable TLS
+ * - sni, alpn, fp: TLS options
+ * - host: WebSocket/HTTP host header
+ * - path: WebSocket/HTTP path or gRPC service name
+ */
+
+import type {
+  VmessOutbound,
+  ParseResult,
+  TlsConfig,
+  TlsFingerprint,
+  AlpnProtocol,
+  TransportType,
+} from "./types";
+import {
+  VALID_FINGERPRINTS,
+  buildTransport,
+  validateTransportType,
+  decodeBase64,
+  parseFailure,
+  parsePort,
+  safeDecodeURIComponent,
+} from "./common";
+
+// v2rayN JSON payload
+interface VmessLinkJson {
+  v?: string | number;
+  ps?: string;
+  add?: string;
+  port?: string | number;
+  id?: string;
+  aid?: string | number;
+  scy?: string;
+  net?: string;
+  type?: string;
+  host?: string;
+  path?: string;
+  tls?: string;
+  sni?: string;
+  alpn?: string;
+  fp?: string;
+}
+
+// Fields used as strings below, other clients sometimes emit arrays or numbers
+const STRING_FIELDS = ["ps", "scy", "net", "type", "host", "path", "tls", "sni", "alpn", "fp"] as const;
+
+const VALID_CIPHERS = ["auto", "aes-128-gcm", "chacha20-poly1305", "aes-128-ctr", "none", "zero"];
+
+/**
+ * Parse a single VMess link into sing-box outbound configuration
+ */
+export function parseVmessLink(link: string, lineNumber: number, defaultTag?: string): ParseResult {
+  const trimmedLink = link.trim();
+
+  if (!trimmedLink.toLowerCase().startsWith("vmess://")) {
+    return parseFailure(link, lineNumber, "Link must start with vmess://");
+  }
+
+  // Some clients append "#name" after the payload
+  const [payload, fragment] = trimmedLink.slice(8).split("#");
+
+  let decoded: string;
+  try {
+    decoded = decodeBase64(payload);
+  } catch (e) {
+    return parseFailure(link, lineNumber, `Invalid base64 payload: ${(e as Error).message}`);
+  }
+
+  let data: VmessLinkJson;
+  try {
+    data = JSON.parse(decoded);
+  } catch (e) {
+    return parseFailure(link, lineNumber, `Invalid JSON in payload: ${(e as Error).message}`);
+  }
+
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return parseFailure(link, lineNumber, "Payload is not a JSON object");
+  }
+
+  for (const field of STRING_FIELDS) {
+    if (data[field] != null && typeof data[field] !== "string") {
+      return parseFailure(link, lineNumber, `Field "${field}" must be a string`);
+    }
+  }
+
+  const server = String(data.add ?? "").trim();
+  if (!server) {
+    return parseFailure(link, lineNumber, "Missing server address (add)");
+  }
+
+  const serverPort = parsePort(String(data.port ?? ""));
+  if (serverPort === null) {
+    return parseFailure(link, lineNumber, "Invalid port number");
+  }
+
+  const uuid = String(data.id ?? "").trim();
+  if (!uuid || uuid.length < 32) {
+    return parseFailure(link, lineNumber, "Invalid UUID format");
+  }
+
+  const name = data.ps || (fragment ? safeDecodeURIComponent(fragment) : "");
+  const outbound: VmessOutbound = {
+    type: "vmess",
+    tag: name || defaultTag || `proxy-p${lineNumber}`,
+    server,
+    server_port: serverPort,
+    uuid,
+    security: "auto",
+  };
+
+  // Cipher
+  if (data.scy) {
+    if (!VALID_CIPHERS.includes(data.scy)) {
+      return parseFailure(link, lineNumber, `Unsupported VMess cipher: ${data.scy}`);
+    }
+    outbound.security = data.scy;
+  }
+
+  // Alter ID (legacy, 0 means AEAD)
+  const alterId = parseInt(String(data.aid ?? "0"), 10);
+  if (!isNaN(alterId) && alterId > 0) {
+    outbound.alter_id = alterId;
+  }
+
+  // TLS
+  if (data.tls === "tls") {
+    const tlsConfig: TlsConfig = {
+      enabled: true,
+      server_name: data.sni || data.host || server,
+    };
+
+    if (data.fp && VALID_FINGERPRINTS.includes(data.fp as TlsFingerprint)) {
+      tlsConfig.utls = {
+        enabled: true,
+        fingerprint: data.fp as TlsFingerprint,
+      };
+    }
+
+    if (data.alpn) {
+      tlsConfig.alpn = data.alpn.split(",") as AlpnProtocol[];
+    }
+
+    outbound.tls = tlsConfig;
+  }
+
+  // Transport: map v2rayN fields onto share-link params
+  const network = (data.net || "tcp").toLowerCase();
+  const transportType = (network === "h2" ? "http" : network) as TransportType;
+  const transportError = validateTransportType(transportType);
+  if (transportError) {
+    return parseFailure(link, lineNumber, transportError);
+  }
+
+  const params = new URLSearchParams();
+  if (data.path) {
+    params.set(transportType === "grpc" ? "serviceName" : "path", data.path);
+  }
+  if (data.host) {
+    params.set("host", data.host);
+  }
+  if (data.type) {
+    params.set("headerType", data.type);
+  }
+
+  const transport = buildTransport(transportType, params);
+  if (transport) {
+    outbound.transport = transport;
+  }
+
+  return {
+    success: true,
+    outbound,
+    originalLink: link,
+    lineNumber,
+  };
+}
@@ -0,0 +1,280 @@
+/**
+ * AmneziaVPN vpn:// share string parser
+ *
+ * Link format:
+ * vpn://base64url(qCompress(JSON))
+ *
+ * qCompress output is a 4-byte big-endian length of the uncompressed data
+ * followed by a zlib stream. Very old clients shared plain base64 JSON.
+ *
+ * Decoded JSON (one server):
+ * {
+ *   "hostName": "1.2.3.4",
+ *   "description": "My server",
+ *   "dns1": "1.1.1.1",
+ *   "dns2": "1.0.0.1",
+ *   "defaultContainer": "amnezia-awg",
+ *   "containers": [{
+ *     "container": "amnezia-awg",
+ *     "awg": { "port": "51820", "last_config": "{\"config\": \"[Interface]...\"}" }
+ *   }]
+ * }
+ *
+ * Supported containers:
+ * - amnezia-xray: last_config is an XRay client config -> parseAmneziaConfig
+ * - amnezia-awg, amnezia-wireguard: last_config.config is a .conf -> parseAwgConfig
+ * - amnezia-shadowsocks: last_config is a shadowsocks-libev config
+ */
+
+import { parseAmneziaConfig } from "./amnezia";
+import type { AmneziaParseResult } from "./amnezia";
+import { parseAwgConfig } from "./awg";
+import type { AwgEndpoint, WireguardEndpoint } from "./awg";
+import { decodeBase64Bytes, parsePort } from "./common";
+import type { DnsConfig } from "@/templates/dns";
+
+// Container settings object, e.g. containers[i].awg
+interface AmneziaContainerSettings {
+  port?: string | number;
+  last_config?: string;
+}
+
+export interface AmneziaContainer {
+  container: string;
+  [protocol: string]: AmneziaContainerSettings | string | undefined;
+}
+
+export interface AmneziaServer {
+  hostName?: string;
+  description?: string;
+  dns1?: string;
+  dns2?: string;
+  defaultContainer?: string;
+  containers?: AmneziaContainer[];
+}
+
+export interface VpnLinkParseResult extends Omit<AmneziaParseResult, "endpoints"> {
+  endpoints: (AwgEndpoint | WireguardEndpoint)[];
+  // DNS servers of the Amnezia server, if it defines any
+  dns?: DnsConfig;
+}
+
+/**
+ * Inflate a zlib stream with the browser's DecompressionStream
+ */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Decode a vpn:// string into the Amnezia server JSON
+ */
+export async function decodeVpnLink(link: string): Promise<AmneziaServer> {
+  const trimmedLink = link.trim();
+
+  if (!trimmedLink.toLowerCase().startsWith("vpn://")) {
+    throw new Error("Link must start with vpn://");
+  }
+
+  const bytes = decodeBase64Bytes(trimmedLink.slice(6));
+
+  // Plain JSON (old clients) or qCompress: 4-byte length header + zlib
+  let json: Uint8Array;
+  if (bytes[0] === 0x7b) {
+    json = bytes;
+  } else {
+    if (bytes.length < 6) {
+      throw new Error("Invalid vpn:// payload: too short");
+    }
+    try {
+      json = await inflate(bytes.subarray(4));
+    } catch {
+      throw new Error("Invalid vpn:// payload: zlib data is corrupted");
+    }
+  }
+
+  let server: AmneziaServer;
+  try {
+    server = JSON.parse(new TextDecoder().decode(json));
+  } catch (e) {
+    throw new Error(`Invalid vpn:// payload: ${(e as Error).message}`);
+  }
+
+  if (!server || typeof server !== "object" || !Array.isArray(server.containers)) {
+    throw new Error("No containers found in vpn:// payload");
+  }
+
+  return server;
+}
+
+/**
+ * Build a DNS section from the server's dns1/dns2
+ */
+function buildDnsConfig(server: AmneziaServer): DnsConfig | undefined {
+  const addresses = [server.dns1, server.dns2].filter((dns): dns is string => !!dns);
+  if (addresses.length === 0) {
+    return undefined;
+  }
+
+  return {
+    servers: [
+      ...addresses.map((address, i) => ({
+        tag: i === 0 ? "amnezia" : `amnezia-${i + 1}`,
+        type: "udp",
+        server: address,
+        detour: "proxy",
+      })),
+      {
+        tag: "local",
+        type: "local",
+      },
+    ],
+    final: "amnezia",
+    strategy: "prefer_ipv4",
+  };
+}
+
+/**
+ * Parse the container's last_config JSON
+ */
+function getLastConfig(container: AmneziaContainer, key: string): Record<string, unknown> {
+  const settings = container[key] as AmneziaContainerSettings | undefined;
+  if (!settings?.last_config) {
+    throw new Error("Container has no client config (last_config)");
+  }
+
+  try {
+    return JSON.parse(settings.last_config);
+  } catch (e) {
+    throw new Error(`Invalid last_config: ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Convert one Amnezia container into sing-box outbounds/endpoints
+ * Throws for containers sing-box cannot run (errors are prefixed by callers)
+ */
+export function convertAmneziaContainer(server: AmneziaServer, container: AmneziaContainer): VpnLinkParseResult {
+  const key = container.container.replace(/^amnezia-/, "");
+  const settings = container[key] as AmneziaContainerSettings | undefined;
+
+  switch (key) {
+    case "xray": {
+      const lastConfig = getLastConfig(container, key);
+      return parseAmneziaConfig(JSON.stringify(lastConfig));
+    }
+
+    case "shadowsocks": {
+      // shadowsocks-libev client config, reshaped as an XRay outbound
+      const lastConfig = getLastConfig(container, key);
+      const xray = {
+        outbounds: [
+          {
+            protocol: "shadowsocks",
+            tag: server.description || undefined,
+            settings: {
+              servers: [
+                {
+                  address: lastConfig.server || server.hostName,
+                  port: parsePort(String(lastConfig.server_port ?? settings?.port ?? "")),
+                  method: lastConfig.method,
+                  password: lastConfig.password,
+                },
+              ],
+            },
+          },
+        ],
+      };
+      return parseAmneziaConfig(JSON.stringify(xray));
+    }
+
+    case "awg":
+    case "wireguard": {
+      const lastConfig = getLastConfig(container, key);
+      if (typeof lastConfig.config !== "string") {
+        throw new Error("Container has no .conf in last_config");
+      }
+
+      // Client configs keep DNS as placeholders filled in by the app
+      const conf = lastConfig.config
+        .replace(/\$PRIMARY_DNS/g, server.dns1 || "1.1.1.1")
+        .replace(/\$SECONDARY_DNS/g, server.dns2 || server.dns1 || "1.0.0.1");
+
+      const result = parseAwgConfig(conf);
+      if (!result.success || !result.endpoint) {
+        return {
+          success: false,
+          outbounds: [],
+          endpoints: [],
+          serviceOutbounds: [],
+          errors: result.errors,
+          warnings: [],
+        };
+      }
+
+      // Server address and port from the container metadata win over the .conf
+      const host = (lastConfig.hostName as string | undefined) || server.hostName;
+      const port = parsePort(String(lastConfig.port ?? settings?.port ?? ""));
+      for (const peer of result.endpoint.peers) {
+        if (host) peer.address = host;
+        if (port !== null) peer.port = port;
+      }
+
+      return {
+        success: true,
+        outbounds: [],
+        endpoints: [result.endpoint],
+        serviceOutbounds: [],
+        errors: result.errors,
+        warnings: [],
+      };
+    }
+
+    default:
+      throw new Error("not supported by sing-box");
+  }
+}
+
+/**
+ * Parse a vpn:// string: decode it and convert every container
+ */
+export async function parseVpnLink(link: string): Promise<VpnLinkParseResult> {
+  const result: VpnLinkParseResult = {
+    success: false,
+    outbounds: [],
+    endpoints: [],
+    serviceOutbounds: [],
+    errors: [],
+    warnings: [],
+  };
+
+  let server: AmneziaServer;
+  try {
+    server = await decodeVpnLink(link);
+  } catch (e) {
+    result.errors.push((e as Error).message);
+    return result;
+  }
+
+  for (const container of server.containers || []) {
+    try {
+      const converted = convertAmneziaContainer(server, container);
+      result.outbounds.push(...converted.outbounds);
+      result.endpoints.push(...converted.endpoints);
+      result.serviceOutbounds.push(...converted.serviceOutbounds);
+      result.errors.push(...converted.errors.map((e) => `${container.container}: ${e}`));
+      result.warnings.push(...converted.warnings.map((w) => `${container.container}: ${w}`));
+    } catch (e) {
+      result.errors.push(`${container.container}: ${(e as Error).message}`);
+    }
+  }
+
+  result.dns = buildDnsConfig(server);
+  result.success = result.outbounds.length > 0 || result.endpoints.length > 0;
+  if (!result.success && result.errors.length === 0) {
+    result.errors.push("No containers found in vpn:// payload");
+  }
+
+  return result;
+}
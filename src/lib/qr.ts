@@ -0,0 +1,54 @@
+/**
+ * QR code reader for screenshots and photos
+ * Decodes in the browser with jsQR, nothing is uploaded
+ */
+
+import jsQR from "jsqr";
+
+// Larger images are scaled down: jsQR time grows with the pixel count
+const MAX_DIMENSION = 2000;
+
+/**
+ * Decode the first QR code found in an image file or clipboard blob
+ * Throws with a readable message when the image or the code can't be read
+ */
+export async function decodeQrImage(image: Blob): Promise<string> {
+  if (!image.type.startsWith("image/")) {
+    throw new Error(`Not an image: ${image.type || "unknown type"}`);
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(image);
+  } catch {
+    throw new Error("Could not read the image, use PNG or JPG");
+  }
+
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    bitmap.close();
+    throw new Error("Canvas is not available in this browser");
+  }
+
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const { data } = context.getImageData(0, 0, width, height);
+
+  // Dark-theme screenshots may have light modules on a dark background
+  const code = jsQR(data, width, height, { inversionAttempts: "attemptBoth" });
+  if (!code) {
+    throw new Error("No QR code found in the image, crop it closer to the code and try again");
+  }
+  if (!code.data.trim()) {
+    throw new Error("QR code is empty or holds binary data");
+  }
+
+  return code.data.trim();
+}
@@ -0,0 +1,236 @@
+/**
+ * Whole-config validator for the built sing-box config
+ *
+ * Checks what sing-box would reject at startup, or silently route wrong:
+ * - tag references: group members, detour, dns.final, route.final,
+ *   route rules, default_domain_resolver, address_resolver
+ * - duplicate tags, including imported outbounds taking proxy/auto/direct
+ * - inbounds listening on the same port
+ * - TUN address CIDRs, route rule CIDRs and ports
+ *
+ * Every issue carries a JSON path into the config, e.g. "outbounds[3].outbounds[1]".
+ */
+
+import { systemOutboundTags } from "@/lib/builder";
+import type { SingBoxConfig } from "@/lib/builder";
+
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  path: string;
+  message: string;
+}
+
+const GROUP_TYPES = ["selector", "urltest"];
+
+/**
+ * Validate an IPv4 or IPv6 CIDR ("172.19.0.1/30", "fdfe:dcba:9876::1/126")
+ */
+function isValidCidr(value: string): boolean {
+  const [address, prefix, ...rest] = value.split("/");
+  if (rest.length > 0 || prefix === undefined || !/^\d{1,3}$/.test(prefix)) {
+    return false;
+  }
+
+  const bits = parseInt(prefix, 10);
+  if (address.includes(":")) {
+    if (bits > 128) return false;
+    // The URL parser accepts exactly the valid IPv6 literals
+    try {
+      new URL(`http://[${address}]/`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  const octets = address.split(".");
+  return (
+    bits <= 32 &&
+    octets.length === 4 &&
+    octets.every((octet) => /^\d{1,3}$/.test(octet) && parseInt(octet, 10) <= 255)
+  );
+}
+
+/**
+ * Port of a "host:port" listen address
+ */
+function parseListenPort(address: string): number | null {
+  const match = address.match(/:(\d+)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Listen addresses clash when equal or when either is a wildcard
+ */
+function listensOverlap(a: string, b: string): boolean {
+  const wildcards = ["0.0.0.0", "::", ""];
+  return a === b || wildcards.includes(a) || wildcards.includes(b);
+}
+
+/**
+ * Validate a built config
+ * Errors break sing-box startup or routing, warnings are worth a look
+ */
+export function validateConfig(config: SingBoxConfig): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ severity: "error", path, message });
+  const warning = (path: string, message: string) => issues.push({ severity: "warning", path, message });
+
+  // Outbound and endpoint tags share one namespace
+  const tagPaths = new Map<string, string>();
+  const registerTag = (tag: string, path: string) => {
+    const existing = tagPaths.get(tag);
+    if (existing === undefined) {
+      tagPaths.set(tag, path);
+    } else if (systemOutboundTags.includes(tag)) {
+      error(existing, `Tag "${tag}" is reserved for the generated ${tag} outbound, rename the imported one`);
+    } else {
+      error(path, `Duplicate tag "${tag}", already used by ${existing}`);
+    }
+  };
+
+  config.outbounds.forEach((outbound, i) => registerTag(outbound.tag, `outbounds[${i}].tag`));
+  config.endpoints?.forEach((endpoint, i) => registerTag(endpoint.tag, `endpoints[${i}].tag`));
+
+  const checkOutboundRef = (tag: unknown, path: string) => {
+    if (typeof tag === "string" && !tagPaths.has(tag)) {
+      error(path, `Unknown outbound "${tag}"`);
+    }
+  };
+
+  // Groups and detours
+  config.outbounds.forEach((outbound, i) => {
+    if (GROUP_TYPES.includes(outbound.type)) {
+      const members = (outbound.outbounds as string[] | undefined) ?? [];
+      if (members.length === 0) {
+        error(`outbounds[${i}].outbounds`, `${outbound.type} "${outbound.tag}" has no members`);
+      }
+
+      const seen = new Set<string>();
+      members.forEach((member, j) => {
+        const path = `outbounds[${i}].outbounds[${j}]`;
+        if (member === outbound.tag) {
+          error(path, `${outbound.type} "${outbound.tag}" includes itself`);
+        } else {
+          checkOutboundRef(member, path);
+        }
+        if (seen.has(member)) {
+          warning(path, `"${member}" is listed twice`);
+        }
+        seen.add(member);
+      });
+
+      const defaultTag = outbound.default as string | undefined;
+      if (defaultTag !== undefined && !members.includes(defaultTag)) {
+        error(`outbounds[${i}].default`, `Default "${defaultTag}" is not a member of "${outbound.tag}"`);
+      }
+    }
+
+    if (outbound.detour !== undefined) {
+      if (outbound.detour === outbound.tag) {
+        error(`outbounds[${i}].detour`, `"${outbound.tag}" detours to itself`);
+      } else {
+        checkOutboundRef(outbound.detour, `outbounds[${i}].detour`);
+      }
+    }
+  });
+
+  // DNS
+  const dnsTags = new Set<string>();
+  config.dns.servers.forEach((server, i) => {
+    if (dnsTags.has(server.tag)) {
+      error(`dns.servers[${i}].tag`, `Duplicate DNS server tag "${server.tag}"`);
+    }
+    dnsTags.add(server.tag);
+  });
+
+  const checkDnsRef = (tag: unknown, path: string) => {
+    if (typeof tag === "string" && !dnsTags.has(tag)) {
+      error(path, `Unknown DNS server "${tag}"`);
+    }
+  };
+
+  config.dns.servers.forEach((server, i) => {
+    checkOutboundRef(server.detour, `dns.servers[${i}].detour`);
+    if ("address_resolver" in server) {
+      checkDnsRef(server.address_resolver, `dns.servers[${i}].address_resolver`);
+    }
+  });
+  checkDnsRef(config.dns.final, "dns.final");
+
+  // Route
+  const route = config.route;
+  checkOutboundRef(route.final, "route.final");
+  route.rules?.forEach((rule, i) => {
+    checkOutboundRef(rule.outbound, `route.rules[${i}].outbound`);
+
+    // Bare addresses are accepted as single-host prefixes
+    (rule.ip_cidr as string[] | undefined)?.forEach((cidr, j) => {
+      const prefix = cidr.includes("/") ? cidr : `${cidr}/${cidr.includes(":") ? 128 : 32}`;
+      if (!isValidCidr(prefix)) {
+        error(`route.rules[${i}].ip_cidr[${j}]`, `Invalid CIDR "${cidr}"`);
+      }
+    });
+
+    (rule.port as unknown[] | undefined)?.forEach((port, j) => {
+      if (typeof port !== "number" || !Number.isInteger(port) || port < 0 || port > 65535) {
+        error(`route.rules[${i}].port[${j}]`, `Invalid port "${port}"`);
+      }
+    });
+  });
+
+  // Either a tag or { server: tag, ... }
+  const resolver = route.default_domain_resolver as string | { server?: string } | undefined;
+  if (resolver !== undefined) {
+    const tag = typeof resolver === "string" ? resolver : resolver.server;
+    checkDnsRef(tag, typeof resolver === "string" ? "route.default_domain_resolver" : "route.default_domain_resolver.server");
+  } else {
+    // New-style servers given by domain need a resolver for their own address
+    config.dns.servers.forEach((server, i) => {
+      if ("server" in server && server.server && /[a-z]/i.test(server.server) && !server.server.includes(":")) {
+        warning(
+          `dns.servers[${i}].server`,
+          `"${server.server}" is a domain, but route.default_domain_resolver is not set`,
+        );
+      }
+    });
+  }
+
+  // Inbound ports, plus the Clash API controller
+  const listeners: { port: number; listen: string; path: string }[] = [];
+  config.inbounds.forEach((inbound, i) => {
+    if (inbound.listen_port !== undefined) {
+      listeners.push({ port: inbound.listen_port, listen: inbound.listen ?? "", path: `inbounds[${i}].listen_port` });
+    }
+  });
+
+  for (let i = 0; i < listeners.length; i++) {
+    for (let j = 0; j < i; j++) {
+      const [a, b] = [listeners[j], listeners[i]];
+      if (a.port === b.port && listensOverlap(a.listen, b.listen)) {
+        error(b.path, `Port ${b.port} is already used by ${a.path}`);
+      }
+    }
+  }
+
+  const controller = config.experimental?.clash_api?.external_controller;
+  const controllerPort = controller ? parseListenPort(controller) : null;
+  const taken = listeners.find((listener) => listener.port === controllerPort);
+  if (taken) {
+    warning("experimental.clash_api.external_controller", `Port ${controllerPort} is also used by ${taken.path}`);
+  }
+
+  // TUN addresses
+  config.inbounds.forEach((inbound, i) => {
+    if (inbound.type !== "tun") return;
+    inbound.address?.forEach((cidr, j) => {
+      if (!isValidCidr(cidr)) {
+        error(`inbounds[${i}].address[${j}]`, `Invalid CIDR "${cidr}"`);
+      }
+    });
+  });
+
+  return issues;
+}
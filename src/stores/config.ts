@@ -1,26 +1,57 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import type { DnsPreset } from "@/templates/dns";
-import type { InboundPreset } from "@/templates/inbounds";
-import type { Outbound, AwgEndpointConfig } from "@/lib/builder";
+import { defaultDnsPreset } from "@/templates/dns";
+import { defaultInboundPreset } from "@/templates/inbounds";
+import { defaultSingboxVersion } from "@/templates/versions";
+import type { SingboxVersion } from "@/templates/versions";
+import type {
+  Outbound,
+  EndpointConfig,
+  CustomSections,
+  DnsSelection,
+  InboundSelection,
+  RouteRule,
+} from "@/lib/builder";
 
 interface ConfigState {
   // Импортированные outbounds
   outbounds: Outbound[];
   setOutbounds: (outbounds: Outbound[]) => void;
+  updateOutbound: (index: number, outbound: Outbound) => void;
   clearOutbounds: () => void;
 
-  // AWG endpoints (отдельно от outbounds)
-  endpoints: AwgEndpointConfig[];
-  setEndpoints: (endpoints: AwgEndpointConfig[]) => void;
+  // AWG/WireGuard endpoints (отдельно от outbounds)
+  endpoints: EndpointConfig[];
+  setEndpoints: (endpoints: EndpointConfig[]) => void;
   clearEndpoints: () => void;
 
-  // Выбранные presets
-  dnsPreset: DnsPreset;
-  setDnsPreset: (preset: DnsPreset) => void;
+  // Импортированные группы (selector/urltest из Clash)
+  groups: Outbound[];
+  setGroups: (groups: Outbound[]) => void;
+  clearGroups: () => void;
 
-  inboundPreset: InboundPreset;
-  setInboundPreset: (preset: InboundPreset) => void;
+  // Выбранные presets ("custom" — блок из импортированного sing-box конфига)
+  dnsPreset: DnsSelection;
+  setDnsPreset: (preset: DnsSelection) => void;
+
+  inboundPreset: InboundSelection;
+  setInboundPreset: (preset: InboundSelection) => void;
+
+  // Правила маршрутизации, порядок = приоритет
+  rules: RouteRule[];
+  addRule: (rule: RouteRule) => void;
+  updateRule: (index: number, rule: RouteRule) => void;
+  removeRule: (index: number) => void;
+  moveRule: (from: number, to: number) => void;
+
+  // Версия sing-box на роутере
+  singboxVersion: SingboxVersion;
+  setSingboxVersion: (version: SingboxVersion) => void;
+
+  // Секции импортированного sing-box конфига
+  custom: CustomSections;
+  setCustom: (custom: CustomSections) => void;
+  clearCustom: () => void;
 
   // Текущий шаг
   step: number;
@@ -34,28 +65,71 @@ export const useConfigStore = create<ConfigState>()(
     (set) => ({
       outbounds: [],
       setOutbounds: (outbounds) => set({ outbounds }),
+      updateOutbound: (index, outbound) =>
+        set((state) => ({
+          outbounds: state.outbounds.map((o, i) => (i === index ? outbound : o)),
+        })),
       clearOutbounds: () => set({ outbounds: [] }),
 
       endpoints: [],
       setEndpoints: (endpoints) => set({ endpoints }),
       clearEndpoints: () => set({ endpoints: [] }),
 
-      dnsPreset: "google",
+      groups: [],
+      setGroups: (groups) => set({ groups }),
+      clearGroups: () => set({ groups: [] }),
+
+      dnsPreset: defaultDnsPreset,
       setDnsPreset: (dnsPreset) => set({ dnsPreset }),
 
-      inboundPreset: "tun",
+      inboundPreset: defaultInboundPreset,
       setInboundPreset: (inboundPreset) => set({ inboundPreset }),
 
+      rules: [],
+      addRule: (rule) => set((state) => ({ rules: [...state.rules, rule] })),
+      updateRule: (index, rule) =>
+        set((state) => ({
+          rules: state.rules.map((r, i) => (i === index ? rule : r)),
+        })),
+      removeRule: (index) =>
+        set((state) => ({
+          rules: state.rules.filter((_, i) => i !== index),
+        })),
+      moveRule: (from, to) =>
+        set((state) => {
+          if (to < 0 || to >= state.rules.length) return state;
+          const rules = [...state.rules];
+          const [rule] = rules.splice(from, 1);
+          rules.splice(to, 0, rule);
+          return { rules };
+        }),
+
+      singboxVersion: defaultSingboxVersion,
+      setSingboxVersion: (singboxVersion) => set({ singboxVersion }),
+
+      custom: {},
+      setCustom: (custom) => set({ custom }),
+      clearCustom: () =>
+        set((state) => ({
+          custom: {},
+          dnsPreset: state.dnsPreset === "custom" ? defaultDnsPreset : state.dnsPreset,
+          inboundPreset: state.inboundPreset === "custom" ? defaultInboundPreset : state.inboundPreset,
+        })),
+
       step: 1,
       setStep: (step) => set({ step }),
-      nextStep: () => set((state) => ({ step: Math.min(state.step + 1, 3) })),
+      nextStep: () => set((state) => ({ step: Math.min(state.step + 1, 4) })),
       prevStep: () => set((state) => ({ step: Math.max(state.step - 1, 1) })),
     }),
     {
       name: "singcraft-config",
+      // Импортированные секции не сохраняются, поэтому и "custom" тоже;
+      // правила сохраняются, устаревшие цели покажет валидатор
       partialize: (state) => ({
-        dnsPreset: state.dnsPreset,
-        inboundPreset: state.inboundPreset,
+        dnsPreset: state.dnsPreset === "custom" ? defaultDnsPreset : state.dnsPreset,
+        inboundPreset: state.inboundPreset === "custom" ? defaultInboundPreset : state.inboundPreset,
+        singboxVersion: state.singboxVersion,
+        rules: state.rules,
       }),
     }
   )
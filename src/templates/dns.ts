@@ -1,5 +1,7 @@
 export type DnsPreset = "google" | "cloudflare" | "adguard";
 
+export const defaultDnsPreset: DnsPreset = "google";
+
 export interface DnsConfig {
   servers: Array<{
     tag: string;
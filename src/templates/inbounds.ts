@@ -1,5 +1,7 @@
 export type InboundPreset = "tun" | "mixed" | "full";
 
+export const defaultInboundPreset: InboundPreset = "tun";
+
 export interface InboundConfig {
   type: string;
   tag: string;
@@ -9,6 +11,8 @@ export interface InboundConfig {
   stack?: string;
   listen?: string;
   listen_port?: number;
+  // sniffing на inbound (до sing-box 1.11)
+  sniff?: boolean;
 }
 
 export const inboundPresets: Record<InboundPreset, { label: string; desc: string; config: InboundConfig[] }> = {
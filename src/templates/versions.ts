@@ -0,0 +1,22 @@
+export type SingboxVersion = "1.10" | "1.11" | "1.12" | "1.13";
+
+export const defaultSingboxVersion: SingboxVersion = "1.12";
+
+export const singboxVersions: Record<SingboxVersion, { label: string; desc: string }> = {
+  "1.10": {
+    label: "sing-box 1.10",
+    desc: "DNS через address, WireGuard как outbound, без endpoints",
+  },
+  "1.11": {
+    label: "sing-box 1.11",
+    desc: "Endpoints и rule actions, DNS ещё через address",
+  },
+  "1.12": {
+    label: "sing-box 1.12",
+    desc: "DNS серверы с type, default_domain_resolver, AWG, TLS fragment",
+  },
+  "1.13": {
+    label: "sing-box 1.13+",
+    desc: "Pinning по certificate_public_key_sha256, ECH через query_server_name",
+  },
+};